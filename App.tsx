@@ -1,14 +1,34 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Scene3D } from './components/Scene3D';
-import { CelestialBody, BodyType, ChatMessage, Vector3 } from './types';
-import { INITIAL_BODIES } from './constants';
+import { CameraHandle, Scene3D } from './components/Scene3D';
+import { CelestialBody, BodyType, ChatMessage, CollisionMode, IntegratorId, PhysicsSettings, SimulationEvent, Vector3 } from './types';
+import { createInitialBodies, DEFAULT_SEED, TIME_WARP_PRESETS, UNIT_SYSTEMS, unitSettings } from './constants';
 import { TextureEditor } from './components/TextureEditor';
+import { BodyInspector } from './components/BodyInspector';
+import { LaunchAim, LaunchConfig, LaunchPanel, LaunchPreset } from './components/LaunchPanel';
+import { SystemGenerator } from './components/SystemGenerator';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { PhysicsSettingsPanel } from './components/PhysicsSettingsPanel';
+import { EVENT_COLORS, EventTimeline } from './components/EventTimeline';
 import { createChatSession, searchFact, getFastResponse } from './services/geminiService';
+import { createSimulationClient } from './services/simulationClient';
+import { INTEGRATORS } from './services/integrators';
+import { circularOrbitVelocity, describeOrbit, escapeVelocity } from './services/orbitalMechanics';
+import { createScenario, DEFAULT_CAMERA_POSE, parseScenario, ScenarioDocument, serializeScenario } from './services/scenario';
+import { createEditHistory, deleteCommand, editBodyCommand, importCommand, lockCommand, releaseCommand, reparentCommand, spawnCommand } from './services/editHistory';
+import { Encounter, TrajectoryPrediction } from './services/prediction';
+import { DEFAULT_SYSTEM_SPEC, SystemSpec } from './services/systemGenerator';
+import { createRandom, randomId } from './services/random';
+import { createEphemerisBodies, dateToTime, timeToDate } from './services/ephemeris';
+import { ImportProblem, importSmallBodies } from './services/smallBodyImport';
+import { influenceRadii } from './services/sphereOfInfluence';
+import { createRecorder } from './services/recorder';
+import { AUTOSAVE_ID, deleteSession, getAutosaveSummary, listSessions, loadSession, saveSession, SessionSummary, StoredSession } from './services/sessionStore';
 import { 
     MessageSquare, 
     Search, 
     Play, 
     Pause, 
+    SkipForward,
     PlusCircle, 
     Trash2, 
     Globe2, 
@@ -16,10 +36,95 @@ import {
     Menu,
     X,
     Send,
-    AlertTriangle
+    AlertTriangle,
+    Network,
+    ScrollText,
+    Lock,
+    Unlock,
+    Download,
+    FolderOpen,
+    HardDrive,
+    History,
+    Undo2,
+    Redo2,
+    ListOrdered,
+    Pencil,
+    Wand2,
+    CalendarDays,
+    FileUp,
+    Activity,
+    SlidersHorizontal,
+    CircleDashed
 } from 'lucide-react';
 import { Chat } from '@google/genai';
 
+// Position and velocity of the selected body, plus those of the body it orbits
+interface LiveState {
+    position: Vector3;
+    velocity: Vector3;
+    parent?: { position: Vector3, velocity: Vector3, mass: number, name: string };
+}
+
+// Fixed decimals, switching to exponents for the tiny values astronomical units produce
+const formatQuantity = (value: number, digits = 2) => value !== 0 && Math.abs(value) < 0.01 ? value.toExponential(digits) : value.toFixed(digits);
+const formatVector = (v: Vector3) => `${formatQuantity(v.x, 1)}, ${formatQuantity(v.y, 1)}, ${formatQuantity(v.z, 1)}`;
+const formatDistance = (d: number) => Number.isFinite(d) ? formatQuantity(d) : '∞';
+
+const AUTOSAVE_INTERVAL_MS = 30000;
+// ?seed=... reproduces a session's starting point exactly
+const URL_SEED = new URLSearchParams(window.location.search).get('seed');
+// How often predictions are redone while nothing is being edited
+const PREDICTION_REFRESH_MS = 1000;
+// Id of the not-yet-launched body while the launch tool predicts its path
+const LAUNCH_PREVIEW_ID = 'launch-preview';
+
+// Close approaches and collisions along a predicted path
+const EncounterList = ({ encounters, bodies, now }: { encounters: Encounter[], bodies: CelestialBody[], now: number }) => (
+    <div className="text-xs font-mono bg-white/5 p-3 rounded-lg border border-white/5 space-y-1">
+        <span className="block text-gray-500 font-sans mb-1">Predicted encounters</span>
+        {encounters.length === 0 && <span className="block text-gray-500">None in the prediction window</span>}
+        {encounters.map(encounter => (
+            <div key={encounter.otherId} className="flex justify-between">
+                <span className={encounter.collision ? 'text-red-400' : 'text-yellow-300'}>
+                    {encounter.collision ? 'Impact' : 'Pass'} · {bodies.find(b => b.id === encounter.otherId)?.name ?? encounter.otherId}
+                </span>
+                <span className="text-gray-400">in {(encounter.time - now).toFixed(1)} · {formatQuantity(encounter.distance)}</span>
+            </div>
+        ))}
+    </div>
+);
+
+// Offered on startup when the previous tab left an autosave behind
+const RestoreDialog = ({ summary, onRestore, onDiscard }: { summary: SessionSummary, onRestore: () => void, onDiscard: () => void }) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+        <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 max-w-md w-full shadow-2xl">
+            <div className="flex items-center gap-3 text-blue-400 mb-4">
+                <History className="w-8 h-8" />
+                <h3 className="text-xl font-bold text-white">Restore Previous Session?</h3>
+            </div>
+            <p className="text-gray-300 mb-6 leading-relaxed">
+                An autosave from <span className="font-bold text-white">{new Date(summary.savedAt).toLocaleString()}</span> with {summary.bodyCount} bodies was found.
+                Starting fresh will overwrite it at the next autosave.
+            </p>
+            <div className="flex justify-end gap-3">
+                <button 
+                    onClick={onDiscard}
+                    className="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition"
+                >
+                    Start Fresh
+                </button>
+                <button 
+                    onClick={onRestore}
+                    className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-bold transition flex items-center gap-2"
+                >
+                    <History className="w-4 h-4" />
+                    Restore
+                </button>
+            </div>
+        </div>
+    </div>
+);
+
 // Simple Modal Component
 const DeleteDialog = ({ body, onConfirm, onCancel }: { body: CelestialBody, onConfirm: () => void, onCancel: () => void }) => (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
@@ -30,7 +135,7 @@ const DeleteDialog = ({ body, onConfirm, onCancel }: { body: CelestialBody, onCo
             </div>
             <p className="text-gray-300 mb-6 leading-relaxed">
                 Are you sure you want to remove <span className="font-bold text-white">{body.name}</span> from the simulation? 
-                This action involves physics calculations that cannot be undone.
+                You can bring it back with Undo (Ctrl+Z).
             </p>
             <div className="flex justify-end gap-3">
                 <button 
@@ -53,12 +158,58 @@ const DeleteDialog = ({ body, onConfirm, onCancel }: { body: CelestialBody, onCo
 
 const App: React.FC = () => {
   // --- State ---
-  const [bodies, setBodies] = useState<CelestialBody[]>(INITIAL_BODIES);
-  const [selectedBody, setSelectedBody] = useState<CelestialBody | null>(null);
+  const [simulation] = useState(() => {
+      const seed = URL_SEED || DEFAULT_SEED;
+      return createSimulationClient(createInitialBodies(seed), seed);
+  });
+  const [seed, setSeed] = useState(() => simulation.getSeed());
+  // Ids of bodies created by hand come from the seed too, so replaying the same edits gives the same ids
+  const spawnRandomRef = useRef(createRandom(`${seed}:spawn`));
+  const [bodies, setBodies] = useState<CelestialBody[]>(() => simulation.getBodies());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedState, setSelectedState] = useState<LiveState | null>(null);
   const [paused, setPaused] = useState(false);
+  const [timeWarp, setTimeWarp] = useState(1);
+  const [simTime, setSimTime] = useState(0);
+  const [jumpTarget, setJumpTarget] = useState('');
   const [gravityViz, setGravityViz] = useState(true);
+  const [influenceViz, setInfluenceViz] = useState(false);
+  const [physicsSettings, setPhysicsSettings] = useState<PhysicsSettings>(() => simulation.getSettings());
+  const [stepSize, setStepSize] = useState(0);
   const [showTextureEditor, setShowTextureEditor] = useState(false);
+  const [inspecting, setInspecting] = useState(false);
+  const [previewBody, setPreviewBody] = useState<CelestialBody | null>(null);
+
+  // Launch Tool State
+  const [launchMode, setLaunchMode] = useState(false);
+  const [launchConfig, setLaunchConfig] = useState<LaunchConfig>({ name: '', type: BodyType.ASTEROID, mass: 1, radius: 0.5, color: '#888888' });
+  const [launchAim, setLaunchAim] = useState<LaunchAim | null>(null);
+  const [launchParentId, setLaunchParentId] = useState('sun');
+
+  // System Generator State
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [generatorSpec, setGeneratorSpec] = useState<SystemSpec>(DEFAULT_SYSTEM_SPEC);
+
+  // Trajectory Prediction State
+  const [predictions, setPredictions] = useState<TrajectoryPrediction[]>([]);
+  // Predictions run one at a time in the worker; each request waits for the previous one
+  const predictionQueueRef = useRef<Promise<unknown>>(Promise.resolve());
   const [sidebarOpen, setSidebarOpen] = useState(true);
+
+  // Undo/Redo State
+  const [history] = useState(() => createEditHistory());
+  const [historyEntries, setHistoryEntries] = useState(() => history.getEntries());
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showPhysicsSettings, setShowPhysicsSettings] = useState(false);
+  const cameraRef = useRef<CameraHandle | null>(null);
+
+  // Scenario File State
+  const scenarioInputRef = useRef<HTMLInputElement>(null);
+  const smallBodyInputRef = useRef<HTMLInputElement>(null);
+  // Outcome of the last small-body import, kept on screen until dismissed
+  const [importReport, setImportReport] = useState<{ fileName: string, format: string, imported: number, problems: ImportProblem[] } | null>(null);
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
   
   // Dialog State
   const [bodyToDelete, setBodyToDelete] = useState<CelestialBody | null>(null);
@@ -75,44 +226,485 @@ const App: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<{text: string, sources: any[]} | null>(null);
   const [isSearching, setIsSearching] = useState(false);
-  const [searchMode, setSearchMode] = useState<'CHAT' | 'SEARCH'>('CHAT');
+  const [searchMode, setSearchMode] = useState<'CHAT' | 'SEARCH' | 'LOG' | 'SAVES'>('CHAT');
+
+  // Local Session State (IndexedDB)
+  const [restorePrompt, setRestorePrompt] = useState<SessionSummary | null>(null);
+  // Autosave stays off until the user has answered the restore prompt, so it can't overwrite the session on offer
+  const [autosaveEnabled, setAutosaveEnabled] = useState(false);
+  const [snapshots, setSnapshots] = useState<SessionSummary[]>([]);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const chatMessagesRef = useRef(chatMessages);
+  chatMessagesRef.current = chatMessages;
+
+  // Event Log State
+  const [events, setEvents] = useState<SimulationEvent[]>(() => simulation.getEvents());
+  // Keyframes that let the timeline rewind the clock exactly
+  const [recorder] = useState(() => createRecorder(simulation));
+  const [recording, setRecording] = useState(false);
+
+  const selectedBody = bodies.find(b => b.id === selectedId) ?? null;
+  const units = UNIT_SYSTEMS[physicsSettings.units];
+  const astronomical = physicsSettings.units === 'astronomical';
+
+  // Parent picked in the info panel for putting a free body on rails
+  const [railsParentId, setRailsParentId] = useState<string>('');
+
+  // Run the physics worker for the lifetime of the app and mirror its body list and events into React
+  useEffect(() => {
+      const unsubscribe = simulation.subscribe(setBodies);
+      const unsubscribeEvents = simulation.subscribeEvents(setEvents);
+      simulation.start();
+      return () => {
+          unsubscribe();
+          unsubscribeEvents();
+          simulation.dispose();
+      };
+  }, [simulation]);
+
+  // Clock and integrator step readouts; both change every frame, so sample rather than re-render per snapshot
+  useEffect(() => {
+      const interval = setInterval(() => {
+          setSimTime(simulation.getTime());
+          setStepSize(simulation.getStepSize());
+      }, 250);
+      return () => clearInterval(interval);
+  }, [simulation]);
+
+  // Body the selection's orbit is described relative to: its rails parent, or the one picked for putting it on rails
+  const referenceBody = selectedBody
+      ? bodies.find(b => b.id === (selectedBody.isLocked ? selectedBody.parentId : railsParentId)) ?? null
+      : null;
+
+  // The body list only changes on edits, so poll the live state of the selection for the info panel
+  useEffect(() => {
+      if (!selectedId) {
+          setSelectedState(null);
+          return;
+      }
+      const refresh = () => {
+          const state: LiveState = { position: { x: 0, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0 } };
+          if (!simulation.readPosition(selectedId, state.position) || !simulation.readVelocity(selectedId, state.velocity)) return;
+          if (referenceBody) {
+              const parent = { position: { x: 0, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0 }, mass: referenceBody.mass, name: referenceBody.name };
+              if (simulation.readPosition(referenceBody.id, parent.position) && simulation.readVelocity(referenceBody.id, parent.velocity)) {
+                  state.parent = parent;
+              }
+          }
+          setSelectedState(state);
+      };
+      refresh();
+      const interval = setInterval(refresh, 250);
+      return () => clearInterval(interval);
+  }, [simulation, selectedId, referenceBody]);
+
+  const selectedOrbit = selectedState?.parent
+      ? describeOrbit(
+          {
+              x: selectedState.position.x - selectedState.parent.position.x,
+              y: selectedState.position.y - selectedState.parent.position.y,
+              z: selectedState.position.z - selectedState.parent.position.z
+          },
+          {
+              x: selectedState.velocity.x - selectedState.parent.velocity.x,
+              y: selectedState.velocity.y - selectedState.parent.velocity.y,
+              z: selectedState.velocity.z - selectedState.parent.velocity.z
+          },
+          selectedState.parent.mass,
+          physicsSettings.G
+      )
+      : null;
+
+  // Spheres of a body on rails; a free body's change with every step, and only its dominant body is shown
+  const selectedRailsParent = selectedBody?.isLocked && selectedBody.parentId ? bodies.find(b => b.id === selectedBody.parentId) : undefined;
+  const selectedInfluence = selectedBody?.orbitalElements && selectedRailsParent
+      ? influenceRadii(selectedBody.orbitalElements, selectedBody.mass, selectedRailsParent.mass)
+      : null;
+
+  // Default the rails parent to the body's last parent, or else the heaviest other body
+  useEffect(() => {
+      if (!selectedBody || selectedBody.isLocked) return;
+      if (railsParentId && railsParentId !== selectedBody.id && bodies.some(b => b.id === railsParentId)) return;
+      const candidates = bodies.filter(b => b.id !== selectedBody.id);
+      const fallback = candidates.find(b => b.id === selectedBody.parentId)
+          ?? candidates.reduce<CelestialBody | null>((heaviest, b) => !heaviest || b.mass > heaviest.mass ? b : heaviest, null);
+      setRailsParentId(fallback?.id ?? '');
+  }, [selectedBody, bodies, railsParentId]);
+
+  // A free body handed to another sphere of influence is described, and would be put on rails, around its new parent
+  const selectedParentId = selectedBody && !selectedBody.isLocked ? selectedBody.parentId : undefined;
+  useEffect(() => {
+      if (selectedParentId) setRailsParentId(selectedParentId);
+  }, [selectedId, selectedParentId]);
+
+  // Predict the paths of the selected free body and of the body being aimed, redoing it as the simulation moves on
+  useEffect(() => {
+      const targets = selectedBody && !selectedBody.isLocked ? [selectedBody.id] : [];
+      const extraBody: CelestialBody | undefined = launchMode && launchAim ? {
+          id: LAUNCH_PREVIEW_ID,
+          name: launchConfig.name,
+          type: launchConfig.type,
+          mass: launchConfig.mass,
+          radius: launchConfig.radius,
+          color: launchConfig.color,
+          position: launchAim.position,
+          velocity: launchAim.velocity,
+          isLocked: false
+      } : undefined;
+      if (targets.length === 0 && !extraBody) {
+          setPredictions([]);
+          return;
+      }
+
+      let cancelled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const run = () => {
+          // Skipped if the inputs changed while waiting, so dragging the aim doesn't pile up requests
+          const request = predictionQueueRef.current.then(() => cancelled ? null : simulation.predict(targets, extraBody));
+          predictionQueueRef.current = request;
+          request.then(result => {
+              if (cancelled || !result) return;
+              setPredictions(result);
+              timer = setTimeout(run, PREDICTION_REFRESH_MS);
+          });
+      };
+      run();
+      return () => {
+          cancelled = true;
+          clearTimeout(timer);
+      };
+  }, [simulation, selectedBody, launchMode, launchAim, launchConfig]);
+
+  const selectedPrediction = predictions.find(p => p.id === selectedId);
+  const launchPrediction = predictions.find(p => p.id === LAUNCH_PREVIEW_ID);
 
   // --- Handlers ---
 
-  const handleSpawn = () => {
+  const toggleLaunchMode = () => {
+      if (!launchMode) {
+          // Aim relative to the selection if there is one, otherwise the heaviest body
+          const heaviest = bodies.reduce<CelestialBody | null>((best, b) => !best || b.mass > best.mass ? b : best, null);
+          setLaunchParentId(selectedBody?.id ?? heaviest?.id ?? '');
+      }
+      setLaunchAim(null);
+      setLaunchMode(!launchMode);
+      setShowGenerator(false);
+  };
+
+  const handleLaunchPreset = (preset: LaunchPreset) => {
+      if (!launchAim) return;
+      const parent = bodies.find(b => b.id === launchParentId);
+      const parentPos = { x: 0, y: 0, z: 0 };
+      const parentVel = { x: 0, y: 0, z: 0 };
+      if (!parent || !simulation.readPosition(parent.id, parentPos) || !simulation.readVelocity(parent.id, parentVel)) return;
+
+      const relPos = {
+          x: launchAim.position.x - parentPos.x,
+          y: launchAim.position.y - parentPos.y,
+          z: launchAim.position.z - parentPos.z
+      };
+      const relVel = preset === 'circular' ? circularOrbitVelocity(relPos, parent.mass, physicsSettings.G) : escapeVelocity(relPos, parent.mass, physicsSettings.G);
+      setLaunchAim({
+          position: launchAim.position,
+          velocity: { x: parentVel.x + relVel.x, y: parentVel.y + relVel.y, z: parentVel.z + relVel.z }
+      });
+  };
+
+  const handleLaunch = () => {
+      if (!launchAim) return;
+      const { name, type, mass, radius, color } = launchConfig;
+      let id: string;
+      do {
+          id = `${type.toLowerCase()}_${randomId(spawnRandomRef.current)}`;
+      } while (bodies.some(b => b.id === id));
       const newBody: CelestialBody = {
-          id: `asteroid_${Date.now()}`,
-          name: `Asteroid ${bodies.length}`,
-          type: BodyType.ASTEROID,
-          mass: 0.5 + Math.random(),
-          radius: 0.5,
-          color: '#888',
-          // Random pos near earth
-          position: { x: 20 + (Math.random() - 0.5) * 10, y: 0, z: (Math.random() - 0.5) * 10 },
-          velocity: { x: (Math.random() - 0.5), y: 0, z: (Math.random() - 0.5) },
+          id,
+          name: name.trim() || `${type === BodyType.ASTEROID ? 'Asteroid' : 'Body'} ${bodies.length}`,
+          type,
+          mass,
+          radius,
+          color,
+          position: { ...launchAim.position },
+          velocity: { ...launchAim.velocity },
           isLocked: false,
-          description: 'A newly discovered asteroid drifting through space.'
+          description: type === BodyType.ASTEROID
+              ? 'A newly discovered asteroid drifting through space.'
+              : 'A body launched into the simulation by hand.'
       };
-      setBodies([...bodies, newBody]);
-      
-      // Get a funny name from Fast AI
-      getFastResponse("Give me a short, funny name for a newly discovered asteroid.").then(name => {
-          if (name) {
-              setBodies(prev => prev.map(b => b.id === newBody.id ? { ...b, name: name.trim() } : b));
-          }
-      });
+      // Get a funny name from Fast AI, which the spawn takes over from the placeholder
+      const aiName = name.trim() ? undefined : getFastResponse(`Give me a short, funny name for a newly discovered ${type.toLowerCase().replace('_', ' ')}.`);
+      history.execute(spawnCommand(simulation, newBody, aiName));
+      setLaunchAim(null);
   };
 
   const handleRemove = () => {
       if (bodyToDelete) {
-          setBodies(bodies.filter(b => b.id !== bodyToDelete.id));
-          if (selectedBody?.id === bodyToDelete.id) setSelectedBody(null);
+          history.execute(deleteCommand(simulation, bodyToDelete));
+          if (selectedId === bodyToDelete.id) setSelectedId(null);
           setBodyToDelete(null);
       }
   };
 
+  const handleToggleRails = () => {
+      if (!selectedBody) return;
+      if (selectedBody.isLocked) {
+          history.execute(releaseCommand(simulation, selectedBody));
+      } else if (railsParentId) {
+          const parent = bodies.find(b => b.id === railsParentId);
+          history.execute(lockCommand(simulation, selectedBody, railsParentId, parent?.name ?? railsParentId));
+      }
+  };
+
+  const handleEditBody = (body: CelestialBody, patch: Partial<CelestialBody>, label: string) => {
+      history.execute(editBodyCommand(simulation, body, patch, label));
+  };
+
+  const handleApplyInspector = (patch: Partial<CelestialBody>) => {
+      if (selectedBody) {
+          const label = `Edit ${selectedBody.name} (${Object.keys(patch).join(', ')})`;
+          // A new parent with the old elements would move the body; refit them instead unless they were edited too
+          if ('parentId' in patch && !('orbitalElements' in patch)) history.execute(reparentCommand(simulation, selectedBody, patch, label));
+          else handleEditBody(selectedBody, patch, label);
+      }
+      setInspecting(false);
+  };
+
+  // Switching the selection drops any unapplied edit
+  useEffect(() => setInspecting(false), [selectedId]);
+
+  useEffect(() => history.subscribe(() => setHistoryEntries(history.getEntries())), [history]);
+
+  // Ctrl+Z / Ctrl+Shift+Z, except while typing (inputs keep their own undo)
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+          const tag = (e.target as HTMLElement).tagName;
+          if (tag === 'INPUT' || tag === 'TEXTAREA') return;
+          e.preventDefault();
+          if (e.shiftKey) history.redo();
+          else history.undo();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
+  useEffect(() => {
+      if (!recording) return;
+      recorder.start();
+      return recorder.stop;
+  }, [recorder, recording]);
+
+  // Follows an event's body with the camera and, while recording, rewinds the clock to it
+  const handleEventSelect = (event: SimulationEvent) => {
+      const rewound = recording && recorder.rewindTo(event.time);
+      // After a rewind a body merged away since is back; otherwise only bodies still here can be followed
+      const id = rewound ? event.bodyIds[0] : event.bodyIds.find(id => bodies.some(b => b.id === id));
+      if (!id) return;
+      setSelectedId(id);
+      cameraRef.current?.follow(id);
+  };
+
+  const handleScrub = (time: number) => {
+      if (recording && recorder.rewindTo(time)) return;
+      simulation.seek(time);
+  };
+
+  const formatSimTime = (time: number) => astronomical ? timeToDate(time).toISOString().slice(0, 10) : `t = ${time.toFixed(2)}`;
+
+  const handleJump = () => {
+      // Astronomical scenes jump to a calendar date
+      const target = astronomical ? dateToTime(new Date(jumpTarget)) : parseFloat(jumpTarget);
+      if (!Number.isFinite(target)) return;
+      simulation.seek(target);
+      setJumpTarget('');
+  };
+
+  const captureScenario = (name: string): ScenarioDocument => createScenario(
+      name,
+      simulation.getState(),
+      simulation.getSettings(),
+      cameraRef.current?.getPose() ?? DEFAULT_CAMERA_POSE
+  );
+
+  const applyScenario = (scenario: ScenarioDocument) => {
+      if (scenario.settings.units !== physicsSettings.units) {
+          const { mass, radius } = UNIT_SYSTEMS[scenario.settings.units].launchBody;
+          setLaunchConfig(config => ({ ...config, mass, radius }));
+          setLaunchAim(null);
+      }
+      // Settings first, so the restored bodies are placed with the scenario's units
+      updatePhysicsSettings(scenario.settings);
+      simulation.restore({ time: scenario.time, bodies: scenario.bodies, seed: scenario.seed });
+      recorder.clear();
+      setSeed(scenario.seed);
+      spawnRandomRef.current = createRandom(`${scenario.seed}:spawn@${scenario.time}`);
+      cameraRef.current?.setPose(scenario.camera);
+      setSelectedId(null);
+      // Commands refer to bodies of the replaced scene
+      history.clear();
+  };
+
+  const handleExportScenario = () => {
+      const scenario = captureScenario(`Scenario ${new Date().toLocaleString()}`);
+      const url = URL.createObjectURL(new Blob([serializeScenario(scenario)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `scenario-${scenario.savedAt.slice(0, 19).replace(/[:T]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleGenerateSystem = (name: string, generated: CelestialBody[]) => {
+      // Pull the camera back far enough to take in the bigger systems
+      const extent = generated.reduce((max, b) => Math.max(max, b.orbitalElements && b.type !== BodyType.MOON ? b.orbitalElements.semiMajorAxis : 0), 0);
+      const zoom = Math.min(5, Math.max(1, extent / 150));
+      const { position, target } = DEFAULT_CAMERA_POSE;
+      applyScenario(createScenario(
+          name,
+          { time: 0, bodies: generated, seed: generatorSpec.seed },
+          { ...physicsSettings, ...unitSettings('simulation') },
+          { position: { x: position.x * zoom, y: position.y * zoom, z: position.z * zoom }, target }
+      ));
+      setShowGenerator(false);
+  };
+
+  // Switches between the toy Solar System and the real one, the latter from the bundled ephemeris as of today
+  const handleToggleEphemeris = () => {
+      applyScenario(astronomical
+          ? createScenario('Solar System', { time: 0, bodies: createInitialBodies(seed), seed }, { ...physicsSettings, ...unitSettings('simulation') }, DEFAULT_CAMERA_POSE)
+          : createScenario(
+              'Solar System (ephemeris)',
+              { time: dateToTime(new Date()), bodies: createEphemerisBodies(), seed },
+              { ...physicsSettings, ...unitSettings('astronomical') },
+              DEFAULT_CAMERA_POSE
+          ));
+      setShowGenerator(false);
+  };
+
+  const handleImportScenario = async (file: File) => {
+      try {
+          applyScenario(parseScenario(await file.text()));
+          setScenarioError(null);
+      } catch (e) {
+          setScenarioError(`${file.name}: ${(e as Error).message}`);
+      }
+  };
+
+  const handleImportSmallBodies = async (file: File) => {
+      if (!astronomical) {
+          setScenarioError(`${file.name}: small-body elements are in AU. Load the real Solar System first.`);
+          return;
+      }
+      // Heliocentric elements; in the ephemeris the Sun is the one star
+      const sun = bodies.find(b => b.type === BodyType.STAR);
+      if (!sun) {
+          setScenarioError(`${file.name}: there is no star for the small bodies to orbit.`);
+          return;
+      }
+      try {
+          const result = importSmallBodies(await file.text(), sun.id);
+          const fresh = result.bodies.filter(b => !bodies.some(existing => existing.id === b.id));
+          const problems = result.problems.concat(
+              result.bodies.filter(b => !fresh.includes(b)).map(b => ({ line: 0, message: `${b.name} is already in the scene` }))
+          );
+          if (fresh.length > 0) history.execute(importCommand(simulation, fresh, `Import ${fresh.length} bodies from ${file.name}`));
+          setImportReport({ fileName: file.name, format: result.format, imported: fresh.length, problems });
+          setScenarioError(null);
+      } catch (e) {
+          setScenarioError(`${file.name}: ${(e as Error).message}`);
+      }
+  };
+
+  // --- Local Sessions ---
+
+  const captureSession = (name: string): StoredSession => ({
+      scenario: captureScenario(name),
+      chatMessages: chatMessagesRef.current
+  });
+
+  const applySession = (session: StoredSession) => {
+      applyScenario(session.scenario);
+      setChatMessages(session.chatMessages);
+      try {
+          chatSessionRef.current = createChatSession(session.chatMessages);
+      } catch (e) {
+          console.error("Failed to init chat", e);
+      }
+  };
+
+  const refreshSnapshots = () => {
+      listSessions()
+          .then(setSnapshots)
+          .catch(e => setStorageError(`Could not read local snapshots: ${(e as Error).message}`));
+  };
+
+  const handleRestoreAutosave = async () => {
+      setRestorePrompt(null);
+      try {
+          const session = await loadSession(AUTOSAVE_ID);
+          if (session) applySession(session);
+      } catch (e) {
+          setStorageError(`Could not restore the previous session: ${(e as Error).message}`);
+      } finally {
+          setAutosaveEnabled(true);
+      }
+  };
+
+  const handleSaveSnapshot = async () => {
+      const name = snapshotName.trim() || `Snapshot ${new Date().toLocaleString()}`;
+      try {
+          await saveSession(`snapshot_${Date.now()}`, name, captureSession(name));
+          setSnapshotName('');
+          refreshSnapshots();
+      } catch (e) {
+          setStorageError(`Could not save snapshot: ${(e as Error).message}`);
+      }
+  };
+
+  const handleOpenSnapshot = async (id: string) => {
+      try {
+          const session = await loadSession(id);
+          if (session) applySession(session);
+      } catch (e) {
+          setStorageError(`Could not open snapshot: ${(e as Error).message}`);
+      }
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+      try {
+          await deleteSession(id);
+          refreshSnapshots();
+      } catch (e) {
+          setStorageError(`Could not delete snapshot: ${(e as Error).message}`);
+      }
+  };
+
+  // Offer the autosave left by the previous tab, if any
+  useEffect(() => {
+      getAutosaveSummary()
+          .then(summary => summary ? setRestorePrompt(summary) : setAutosaveEnabled(true))
+          .catch(() => setAutosaveEnabled(true));
+      refreshSnapshots();
+  }, []);
+
+  useEffect(() => {
+      if (!autosaveEnabled) return;
+      const interval = setInterval(() => {
+          saveSession(AUTOSAVE_ID, 'Autosave', captureSession('Autosave'))
+              .catch(e => console.error("Autosave failed", e));
+      }, AUTOSAVE_INTERVAL_MS);
+      return () => clearInterval(interval);
+  }, [autosaveEnabled]);
+
   const handleTextureUpdate = (id: string, texture: string) => {
-      setBodies(bodies.map(b => b.id === id ? { ...b, texture } : b));
+      const body = bodies.find(b => b.id === id);
+      if (body) handleEditBody(body, { texture }, `Repaint ${body.name}`);
+  };
+
+  const updatePhysicsSettings = (patch: Partial<PhysicsSettings>) => {
+      simulation.updateSettings(patch);
+      setPhysicsSettings(simulation.getSettings());
   };
 
   // --- AI Chat Logic ---
@@ -176,11 +768,18 @@ const App: React.FC = () => {
       <div className="absolute inset-0 z-0">
           <Scene3D 
             bodies={bodies} 
-            setBodies={setBodies} 
+            simulation={simulation} 
             paused={paused} 
+            timeWarp={timeWarp}
+            cameraRef={cameraRef}
+            previewBody={previewBody}
+            predictions={predictions}
+            launch={launchMode ? { aim: launchAim, radius: launchConfig.radius, color: launchConfig.color, onAim: setLaunchAim } : null}
             gravityViz={gravityViz}
-            onBodyClick={setSelectedBody}
-            selectedBody={selectedBody}
+            influenceViz={influenceViz}
+            units={physicsSettings.units}
+            onBodyClick={body => setSelectedId(body.id)}
+            selectedId={selectedId}
           />
       </div>
 
@@ -190,13 +789,178 @@ const App: React.FC = () => {
              <button onClick={() => setPaused(!paused)} className="p-2 hover:bg-white/10 rounded-lg transition" title={paused ? "Resume" : "Pause"}>
                  {paused ? <Play className="w-6 h-6 text-green-400" /> : <Pause className="w-6 h-6 text-yellow-400" />}
              </button>
+             <button onClick={() => simulation.step(physicsSettings.timeStep * Math.sign(timeWarp))} className="p-2 hover:bg-white/10 rounded-lg transition" title="Single Step">
+                 <SkipForward className={`w-6 h-6 text-gray-300 ${timeWarp < 0 ? 'rotate-180' : ''}`} />
+             </button>
+             <div className="flex flex-col justify-center px-1">
+                 <span className="text-xs font-mono text-gray-200" title={astronomical ? `Simulation time: ${simTime.toFixed(2)} days since J2000` : 'Simulation time'}>{formatSimTime(simTime)}</span>
+                 <button 
+                    onClick={() => navigator.clipboard?.writeText(`${window.location.origin}${window.location.pathname}?seed=${encodeURIComponent(seed)}`)}
+                    className="text-left text-[10px] font-mono text-gray-500 hover:text-gray-300 truncate max-w-[6rem]"
+                    title="Random seed of this session (click to copy a link that starts from it)"
+                 >
+                     seed {seed}
+                 </button>
+                 <select 
+                    value={timeWarp}
+                    onChange={e => setTimeWarp(Number(e.target.value))}
+                    className="bg-transparent text-[10px] text-gray-400 focus:outline-none cursor-pointer"
+                    title="Time warp"
+                 >
+                     {TIME_WARP_PRESETS.map(warp => (
+                         <option key={warp} value={warp} className="bg-gray-900">{warp < 0 ? `◀ ${-warp}×` : `${warp}×`}</option>
+                     ))}
+                 </select>
+             </div>
+             <input 
+                type={astronomical ? 'date' : 'number'}
+                value={jumpTarget}
+                onChange={e => setJumpTarget(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleJump()}
+                placeholder="Jump to t"
+                className={`${astronomical ? 'w-28' : 'w-20'} self-center bg-transparent border border-white/10 rounded px-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500`}
+                title={astronomical ? 'Jump to date (Enter)' : 'Jump to simulation time (Enter)'}
+             />
              <div className="w-px bg-white/10 mx-1"></div>
-             <button onClick={handleSpawn} className="p-2 hover:bg-white/10 rounded-lg transition" title="Spawn Random Mass">
+             <button onClick={toggleLaunchMode} className={`p-2 rounded-lg transition ${launchMode ? 'bg-blue-600/30' : 'hover:bg-white/10'}`} title="Launch Tool">
                  <PlusCircle className="w-6 h-6 text-blue-400" />
              </button>
+             <button 
+                onClick={() => {
+                    if (launchMode) toggleLaunchMode();
+                    setShowGenerator(!showGenerator);
+                }}
+                className={`p-2 rounded-lg transition ${showGenerator ? 'bg-purple-600/30' : 'hover:bg-white/10'}`}
+                title="Generate System"
+             >
+                 <Wand2 className="w-6 h-6 text-purple-400" />
+             </button>
+             <button 
+                onClick={handleToggleEphemeris}
+                className={`p-2 rounded-lg transition ${astronomical ? 'bg-amber-600/30' : 'hover:bg-white/10'}`}
+                title={astronomical ? 'Real Solar System in AU and days (switch back to the scaled model)' : 'Load the real Solar System from the J2000 ephemeris, as of today'}
+             >
+                 <CalendarDays className="w-6 h-6 text-amber-400" />
+             </button>
              <button onClick={() => setGravityViz(!gravityViz)} className="p-2 hover:bg-white/10 rounded-lg transition" title="Toggle Gravity Grid">
                  <Globe2 className={`w-6 h-6 ${gravityViz ? 'text-purple-400' : 'text-gray-400'}`} />
              </button>
+             <button onClick={() => setInfluenceViz(!influenceViz)} className="p-2 hover:bg-white/10 rounded-lg transition" title="Toggle Spheres of Influence and Hill Spheres">
+                 <CircleDashed className={`w-6 h-6 ${influenceViz ? 'text-cyan-400' : 'text-gray-400'}`} />
+             </button>
+             <button 
+                onClick={() => updatePhysicsSettings({ solver: physicsSettings.solver === 'direct' ? 'barnes-hut' : 'direct' })} 
+                className="p-2 hover:bg-white/10 rounded-lg transition" 
+                title={physicsSettings.solver === 'direct' ? 'Gravity: Direct Summation (switch to Barnes–Hut)' : `Gravity: Barnes–Hut θ=${physicsSettings.theta} (switch to Direct Summation)`}
+             >
+                 <Network className={`w-6 h-6 ${physicsSettings.solver === 'barnes-hut' ? 'text-emerald-400' : 'text-gray-400'}`} />
+             </button>
+             <div className="w-px bg-white/10 mx-1"></div>
+             <button onClick={history.undo} disabled={historyEntries.position === 0} className="p-2 hover:bg-white/10 rounded-lg transition disabled:opacity-40" title={historyEntries.position > 0 ? `Undo ${historyEntries.labels[historyEntries.position - 1]} (Ctrl+Z)` : 'Nothing to undo'}>
+                 <Undo2 className="w-6 h-6 text-gray-300" />
+             </button>
+             <button onClick={history.redo} disabled={historyEntries.position === historyEntries.labels.length} className="p-2 hover:bg-white/10 rounded-lg transition disabled:opacity-40" title={historyEntries.position < historyEntries.labels.length ? `Redo ${historyEntries.labels[historyEntries.position]} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+                 <Redo2 className="w-6 h-6 text-gray-300" />
+             </button>
+             <div className="relative">
+                 <button onClick={() => setShowHistory(!showHistory)} className="p-2 hover:bg-white/10 rounded-lg transition" title="Edit History">
+                     <ListOrdered className={`w-6 h-6 ${showHistory ? 'text-blue-400' : 'text-gray-300'}`} />
+                 </button>
+                 {showHistory && (
+                     <div className="absolute top-12 left-0 w-72 max-h-80 overflow-y-auto bg-gray-950/95 border border-white/10 rounded-xl p-2 shadow-2xl">
+                         <button 
+                            onClick={() => history.goTo(0)}
+                            className={`w-full text-left text-xs px-2 py-1 rounded ${historyEntries.position === 0 ? 'bg-blue-600/30 text-white' : 'text-gray-400 hover:bg-white/10'}`}
+                         >
+                             Initial state
+                         </button>
+                         {historyEntries.labels.map((label, i) => (
+                             <button 
+                                key={i}
+                                onClick={() => history.goTo(i + 1)}
+                                className={`w-full text-left text-xs px-2 py-1 rounded truncate ${i + 1 === historyEntries.position ? 'bg-blue-600/30 text-white' : i + 1 > historyEntries.position ? 'text-gray-600 hover:bg-white/10' : 'text-gray-300 hover:bg-white/10'}`}
+                             >
+                                 {label}
+                             </button>
+                         ))}
+                     </div>
+                 )}
+             </div>
+             <button onClick={handleExportScenario} className="p-2 hover:bg-white/10 rounded-lg transition" title="Save Scenario">
+                 <Download className="w-6 h-6 text-gray-300" />
+             </button>
+             <button onClick={() => scenarioInputRef.current?.click()} className="p-2 hover:bg-white/10 rounded-lg transition" title="Open Scenario">
+                 <FolderOpen className="w-6 h-6 text-gray-300" />
+             </button>
+             <input 
+                ref={scenarioInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportScenario(file);
+                    e.target.value = '';
+                }}
+             />
+             <button onClick={() => smallBodyInputRef.current?.click()} className="p-2 hover:bg-white/10 rounded-lg transition" title="Import Asteroids & Comets (MPCORB or JPL SBDB CSV)">
+                 <FileUp className="w-6 h-6 text-gray-300" />
+             </button>
+             <input 
+                ref={smallBodyInputRef}
+                type="file"
+                accept=".dat,.txt,.csv,text/plain,text/csv"
+                className="hidden"
+                onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportSmallBodies(file);
+                    e.target.value = '';
+                }}
+             />
+             <div className="w-px bg-white/10 mx-1"></div>
+             <div className="flex flex-col justify-center px-1">
+                 <select 
+                    value={physicsSettings.integrator}
+                    onChange={e => updatePhysicsSettings({ integrator: e.target.value as IntegratorId })}
+                    className="bg-transparent text-xs text-gray-200 focus:outline-none cursor-pointer"
+                    title="Integrator"
+                 >
+                     {Object.values(INTEGRATORS).map(integrator => (
+                         <option key={integrator.id} value={integrator.id} className="bg-gray-900">{integrator.label}</option>
+                     ))}
+                 </select>
+                 <span className="text-[10px] font-mono text-gray-500" title="Smallest step used in the last frame">
+                     h = {stepSize.toExponential(2)}
+                 </span>
+             </div>
+             <button onClick={() => setShowDiagnostics(!showDiagnostics)} className={`p-2 rounded-lg transition ${showDiagnostics ? 'bg-emerald-600/30' : 'hover:bg-white/10'}`} title="Conservation Diagnostics">
+                 <Activity className="w-6 h-6 text-emerald-400" />
+             </button>
+             <button onClick={() => setShowPhysicsSettings(!showPhysicsSettings)} className={`p-2 rounded-lg transition ${showPhysicsSettings ? 'bg-amber-600/30' : 'hover:bg-white/10'}`} title="Physics Settings">
+                 <SlidersHorizontal className="w-6 h-6 text-amber-400" />
+             </button>
+             <div className="flex flex-col justify-center px-1">
+                 <select 
+                    value={physicsSettings.collisionMode}
+                    onChange={e => updatePhysicsSettings({ collisionMode: e.target.value as CollisionMode })}
+                    className="bg-transparent text-xs text-gray-200 focus:outline-none cursor-pointer"
+                    title="Collision outcome"
+                 >
+                     <option value="none" className="bg-gray-900">No Collisions</option>
+                     <option value="merge" className="bg-gray-900">Merge on Impact</option>
+                     <option value="bounce" className="bg-gray-900">Bounce</option>
+                     <option value="fragment" className="bg-gray-900">Fragment</option>
+                 </select>
+                 <label className="text-[10px] text-gray-500 flex items-center gap-1 cursor-pointer" title="Bodies on Keplerian rails that get hit switch to N-body physics">
+                     <input 
+                        type="checkbox" 
+                        checked={physicsSettings.unlockOnImpact}
+                        onChange={e => updatePhysicsSettings({ unlockOnImpact: e.target.checked })}
+                        className="accent-blue-500"
+                     />
+                     Unlock on impact
+                 </label>
+             </div>
           </div>
 
           <div className="pointer-events-auto">
@@ -209,49 +973,240 @@ const App: React.FC = () => {
           </div>
       </div>
 
+      {/* System Generator */}
+      {showGenerator && (
+          <div className="absolute top-24 left-4 z-20">
+              <SystemGenerator 
+                spec={generatorSpec}
+                onSpecChange={setGeneratorSpec}
+                onGenerate={handleGenerateSystem}
+                onCancel={() => setShowGenerator(false)}
+              />
+          </div>
+      )}
+
+      {/* Launch Tool */}
+      {launchMode && (
+          <div className="absolute top-24 left-4 z-20">
+              <LaunchPanel 
+                config={launchConfig}
+                onConfigChange={setLaunchConfig}
+                aim={launchAim}
+                bodies={bodies.filter(b => b.type !== BodyType.ASTEROID || b.id === launchParentId)}
+                parentId={launchParentId}
+                onParentChange={setLaunchParentId}
+                onPreset={handleLaunchPreset}
+                onLaunch={handleLaunch}
+                onCancel={toggleLaunchMode}
+                minRadius={units.launchBody.minRadius}
+                speedUnit={units.labels.speed}
+              />
+              {launchPrediction && (
+                  <div className="mt-2 w-72 bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl p-2 shadow-2xl">
+                      <EncounterList encounters={launchPrediction.encounters} bodies={bodies} now={simTime} />
+                  </div>
+              )}
+          </div>
+      )}
+
+      {/* Conservation Diagnostics */}
+      {showDiagnostics && (
+          <div className={`absolute bottom-28 z-20 transition-all ${sidebarOpen ? 'right-[26rem]' : 'right-8'}`}>
+              <DiagnosticsPanel simulation={simulation} bodies={bodies} onClose={() => setShowDiagnostics(false)} />
+          </div>
+      )}
+
+      {/* Physics Settings */}
+      {showPhysicsSettings && (
+          <div className={`absolute z-20 transition-all ${showDiagnostics ? 'bottom-[26rem]' : 'bottom-28'} ${sidebarOpen ? 'right-[26rem]' : 'right-8'}`}>
+              <PhysicsSettingsPanel settings={physicsSettings} onChange={updatePhysicsSettings} onClose={() => setShowPhysicsSettings(false)} />
+          </div>
+      )}
+
+      {/* Scenario Load Error */}
+      {scenarioError && (
+          <div className="absolute top-24 left-4 z-30 max-w-md bg-red-950/90 border border-red-500/50 rounded-xl p-4 flex gap-3 items-start shadow-2xl">
+              <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+              <p className="text-sm text-red-100 flex-1 break-words">{scenarioError}</p>
+              <button onClick={() => setScenarioError(null)} className="text-red-300 hover:text-white"><X className="w-4 h-4"/></button>
+          </div>
+      )}
+
+      {/* Small Body Import Report */}
+      {importReport && !scenarioError && (
+          <div className="absolute top-24 left-4 z-30 w-96 max-h-80 overflow-y-auto bg-black/80 backdrop-blur-lg border border-white/10 rounded-xl p-4 shadow-2xl space-y-2">
+              <div className="flex justify-between items-start gap-3">
+                  <p className="text-sm text-gray-200">
+                      Imported <span className="font-bold text-white">{importReport.imported}</span> bodies from {importReport.fileName} ({importReport.format}).
+                      {importReport.problems.length > 0 && ` ${importReport.problems.length} rows skipped:`}
+                  </p>
+                  <button onClick={() => setImportReport(null)} className="text-gray-400 hover:text-white"><X className="w-4 h-4"/></button>
+              </div>
+              {importReport.problems.length > 0 && (
+                  <ul className="text-xs font-mono text-yellow-300 space-y-0.5">
+                      {importReport.problems.slice(0, 100).map((problem, i) => (
+                          <li key={i}>{problem.line > 0 && <span className="text-gray-500">line {problem.line}: </span>}{problem.message}</li>
+                      ))}
+                      {importReport.problems.length > 100 && <li className="text-gray-500">… and {importReport.problems.length - 100} more</li>}
+                  </ul>
+              )}
+          </div>
+      )}
+
+      {/* Event Timeline */}
+      <div className={`absolute bottom-4 left-4 z-20 transition-all ${sidebarOpen ? 'right-[25rem]' : 'right-4'}`}>
+          <EventTimeline
+              events={events}
+              now={simTime}
+              recorded={recording ? recorder.getRange() : null}
+              recording={recording}
+              onRecordingChange={setRecording}
+              onSelect={handleEventSelect}
+              onScrub={handleScrub}
+              formatTime={formatSimTime}
+          />
+      </div>
+
       {/* Selected Body Info Panel */}
       {selectedBody && (
-          <div className="absolute bottom-8 left-8 z-20 w-80 bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl p-6 shadow-2xl transition-all">
+          <div className="absolute bottom-28 left-8 z-20 w-80 max-h-[70vh] overflow-y-auto bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl p-6 shadow-2xl transition-all">
               <div className="flex justify-between items-start mb-4">
                   <div>
                       <h2 className="text-2xl font-bold text-white">{selectedBody.name}</h2>
                       <p className="text-sm text-gray-400">{selectedBody.type}</p>
                   </div>
-                  <button onClick={() => setSelectedBody(null)} className="text-gray-400 hover:text-white"><X className="w-5 h-5"/></button>
+                  <button onClick={() => setSelectedId(null)} className="text-gray-400 hover:text-white"><X className="w-5 h-5"/></button>
               </div>
               
-              <div className="space-y-3 mb-6">
-                  {selectedBody.description && (
-                      <p className="text-sm text-gray-300 leading-relaxed bg-white/5 p-3 rounded-lg border border-white/5">
-                          {selectedBody.description}
-                      </p>
-                  )}
-                  <div className="flex justify-between text-sm pt-2">
-                      <span className="text-gray-500">Mass</span>
-                      <span className="font-mono text-blue-300">{selectedBody.mass.toFixed(2)} M</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Velocity</span>
-                      <span className="font-mono text-blue-300">{Math.sqrt(selectedBody.velocity.x**2 + selectedBody.velocity.z**2).toFixed(2)} km/s</span>
+              {inspecting ? (
+                  <BodyInspector 
+                    body={selectedBody}
+                    allBodies={bodies}
+                    onApply={handleApplyInspector}
+                    onCancel={() => setInspecting(false)}
+                    onPreviewChange={setPreviewBody}
+                  />
+              ) : (
+                  <>
+                  <div className="space-y-3 mb-6">
+                      {selectedBody.description && (
+                          <p className="text-sm text-gray-300 leading-relaxed bg-white/5 p-3 rounded-lg border border-white/5">
+                              {selectedBody.description}
+                          </p>
+                      )}
+                      <div className="flex justify-between text-sm pt-2">
+                          <span className="text-gray-500">Mass</span>
+                          <span className="font-mono text-blue-300">{formatQuantity(selectedBody.mass)} {units.labels.mass}</span>
+                      </div>
+                      {selectedState && (
+                          <>
+                              <div className="flex justify-between text-sm">
+                                  <span className="text-gray-500">Position</span>
+                                  <span className="font-mono text-blue-300">{formatVector(selectedState.position)}</span>
+                              </div>
+                              <div className="flex justify-between text-sm">
+                                  <span className="text-gray-500">Velocity</span>
+                                  <span className="font-mono text-blue-300">{formatVector(selectedState.velocity)}</span>
+                              </div>
+                              <div className="flex justify-between text-sm">
+                                  <span className="text-gray-500">Speed</span>
+                                  <span className="font-mono text-blue-300">{formatQuantity(Math.sqrt(selectedState.velocity.x**2 + selectedState.velocity.y**2 + selectedState.velocity.z**2))} {units.labels.speed}</span>
+                              </div>
+                          </>
+                      )}
+                      {selectedInfluence && (
+                          <>
+                              <div className="flex justify-between text-sm">
+                                  <span className="text-gray-500" title="Laplace radius: inside it, orbits are best described around this body">Sphere of influence</span>
+                                  <span className="font-mono text-blue-300">{formatQuantity(selectedInfluence.soi)} {units.labels.distance}</span>
+                              </div>
+                              <div className="flex justify-between text-sm">
+                                  <span className="text-gray-500" title="At periapsis: moons further out than this are pulled away">Hill sphere</span>
+                                  <span className="font-mono text-blue-300">{formatQuantity(selectedInfluence.hill)} {units.labels.distance}</span>
+                              </div>
+                          </>
+                      )}
+                      {selectedParentId && physicsSettings.soiReparenting && (
+                          <div className="flex justify-between text-sm">
+                              <span className="text-gray-500" title="Body whose sphere of influence this one is in">Dominated by</span>
+                              <span className="font-mono text-blue-300">{bodies.find(b => b.id === selectedParentId)?.name ?? selectedParentId}</span>
+                          </div>
+                      )}
+                      {selectedOrbit && selectedState?.parent && (
+                          <div className="text-xs font-mono grid grid-cols-2 gap-x-4 gap-y-1 bg-white/5 p-3 rounded-lg border border-white/5">
+                              <span className="col-span-2 text-gray-500 font-sans mb-1">
+                                  {!selectedBody.isLocked && referenceBody?.id === selectedParentId ? 'Patched-conic orbit' : 'Orbit'} around {selectedState.parent.name}
+                              </span>
+                              <span className="text-gray-500">Distance</span>
+                              <span className="text-right text-blue-300">{formatQuantity(selectedOrbit.distance)} {units.labels.distance}</span>
+                              <span className="text-gray-500">True anomaly</span>
+                              <span className="text-right text-blue-300">{(selectedOrbit.trueAnomaly * 180 / Math.PI).toFixed(1)}°</span>
+                              <span className="text-gray-500">Periapsis</span>
+                              <span className="text-right text-blue-300">{formatDistance(selectedOrbit.periapsis)}</span>
+                              <span className="text-gray-500">Apoapsis</span>
+                              <span className="text-right text-blue-300">{formatDistance(selectedOrbit.apoapsis)}</span>
+                              <span className="text-gray-500">Period</span>
+                              <span className="text-right text-blue-300">{formatDistance(selectedOrbit.period)}</span>
+                              <span className="text-gray-500">Energy</span>
+                              <span className="text-right text-blue-300">{formatQuantity(selectedOrbit.specificEnergy, 3)}</span>
+                          </div>
+                      )}
+                      {selectedPrediction && <EncounterList encounters={selectedPrediction.encounters} bodies={bodies} now={simTime} />}
+                      <div className="flex justify-between items-center text-sm">
+                          <span className="text-gray-500">Physics</span>
+                          {selectedBody.isLocked ? (
+                              <span className="font-mono text-blue-300">Keplerian rails</span>
+                          ) : (
+                              <span className="flex items-center gap-1 text-gray-500">
+                                  N-body · orbit
+                                  <select 
+                                    value={railsParentId}
+                                    onChange={e => setRailsParentId(e.target.value)}
+                                    className="bg-transparent font-mono text-blue-300 focus:outline-none cursor-pointer"
+                                    title="Body to orbit when put on rails"
+                                  >
+                                      {bodies.filter(b => b.id !== selectedBody.id).map(b => (
+                                          <option key={b.id} value={b.id} className="bg-gray-900">{b.name}</option>
+                                      ))}
+                                  </select>
+                              </span>
+                          )}
+                      </div>
                   </div>
-              </div>
 
-              <div className="flex gap-2">
-                  <button 
-                    onClick={() => setShowTextureEditor(true)}
-                    className="flex-1 bg-purple-600/20 hover:bg-purple-600/40 border border-purple-500/50 text-purple-200 py-2 rounded-lg text-sm font-medium transition flex items-center justify-center gap-2"
-                  >
-                      <Sparkles className="w-4 h-4" />
-                      Edit Texture
-                  </button>
-                  <button 
-                    onClick={() => setBodyToDelete(selectedBody)}
-                    className="p-2 rounded-lg transition border flex items-center justify-center gap-2 bg-red-900/20 hover:bg-red-900/40 border-red-500/50 text-red-200"
-                    title="Destroy"
-                  >
-                     <Trash2 className="w-4 h-4" />
-                  </button>
-              </div>
+                  <div className="flex gap-2">
+                      <button 
+                        onClick={() => setInspecting(true)}
+                        className="p-2 rounded-lg transition border flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 border-white/20 text-gray-200"
+                        title="Edit Properties"
+                      >
+                         <Pencil className="w-4 h-4" />
+                      </button>
+                      <button 
+                        onClick={() => setShowTextureEditor(true)}
+                        className="flex-1 bg-purple-600/20 hover:bg-purple-600/40 border border-purple-500/50 text-purple-200 py-2 rounded-lg text-sm font-medium transition flex items-center justify-center gap-2"
+                      >
+                          <Sparkles className="w-4 h-4" />
+                          Edit Texture
+                      </button>
+                      <button 
+                        onClick={handleToggleRails}
+                        disabled={!selectedBody.isLocked && !railsParentId}
+                        className="p-2 rounded-lg transition border flex items-center justify-center gap-2 bg-blue-900/20 hover:bg-blue-900/40 border-blue-500/50 text-blue-200 disabled:opacity-40"
+                        title={selectedBody.isLocked ? 'Release from rails into N-body physics' : 'Fit an orbit and put on rails'}
+                      >
+                         {selectedBody.isLocked ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+                      </button>
+                      <button 
+                        onClick={() => setBodyToDelete(selectedBody)}
+                        className="p-2 rounded-lg transition border flex items-center justify-center gap-2 bg-red-900/20 hover:bg-red-900/40 border-red-500/50 text-red-200"
+                        title="Destroy"
+                      >
+                         <Trash2 className="w-4 h-4" />
+                      </button>
+                  </div>
+                  </>
+              )}
           </div>
       )}
 
@@ -272,6 +1227,18 @@ const App: React.FC = () => {
               >
                   <Search className="w-4 h-4" /> Grounding
               </button>
+              <button 
+                onClick={() => setSearchMode('LOG')}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition flex justify-center items-center gap-2 ${searchMode === 'LOG' ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                  <ScrollText className="w-4 h-4" /> Log
+              </button>
+              <button 
+                onClick={() => setSearchMode('SAVES')}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition flex justify-center items-center gap-2 ${searchMode === 'SAVES' ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                  <HardDrive className="w-4 h-4" /> Saves
+              </button>
           </div>
 
           <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -299,7 +1266,7 @@ const App: React.FC = () => {
                         </div>
                     )}
                   </>
-              ) : (
+              ) : searchMode === 'SEARCH' ? (
                   // Search Interface
                   <div className="space-y-6">
                       <div>
@@ -339,6 +1306,64 @@ const App: React.FC = () => {
                           </div>
                       )}
                   </div>
+              ) : searchMode === 'LOG' ? (
+                  // Event Log (newest first)
+                  <div className="space-y-2">
+                      {events.length === 0 && (
+                          <p className="text-gray-500 text-sm">No events yet. Collisions, rail changes, sphere-of-influence crossings, close approaches, apsis passages, conjunctions and escapes will be recorded here.</p>
+                      )}
+                      {[...events].reverse().map(event => (
+                          <button key={event.id} onClick={() => handleEventSelect(event)} className="block w-full text-left bg-gray-900/50 hover:bg-gray-800/60 rounded-lg p-3 border border-gray-800" title={recording ? 'Follow and rewind to this event' : 'Follow this event'}>
+                              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                                  <span className="uppercase font-bold" style={{ color: EVENT_COLORS[event.type] }}>{event.type}</span>
+                                  <span className="font-mono">{formatSimTime(event.time)}</span>
+                              </div>
+                              <p className="text-sm text-gray-200">{event.message}</p>
+                          </button>
+                      ))}
+                  </div>
+              ) : (
+                  // Local Snapshots (IndexedDB)
+                  <div className="space-y-4">
+                      <div>
+                          <p className="text-gray-400 text-sm mb-2">Snapshots are kept in this browser. The session is also autosaved every {AUTOSAVE_INTERVAL_MS / 1000} seconds.</p>
+                          <div className="relative">
+                            <input 
+                                className="w-full bg-gray-900 border border-gray-700 rounded-lg py-2 pl-3 pr-10 text-white text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                placeholder="Snapshot name"
+                                value={snapshotName}
+                                onChange={e => setSnapshotName(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && handleSaveSnapshot()}
+                            />
+                            <button 
+                                onClick={handleSaveSnapshot}
+                                className="absolute right-2 top-2 text-gray-400 hover:text-white"
+                                title="Save Snapshot"
+                            >
+                                <HardDrive className="w-4 h-4"/>
+                            </button>
+                          </div>
+                      </div>
+                      {storageError && (
+                          <p className="text-sm text-red-400">{storageError}</p>
+                      )}
+                      {snapshots.length === 0 && (
+                          <p className="text-gray-500 text-sm">No snapshots saved yet.</p>
+                      )}
+                      <div className="space-y-2">
+                          {snapshots.map(snapshot => (
+                              <div key={snapshot.id} className="bg-gray-900/50 rounded-lg p-3 border border-gray-800 flex items-center gap-2">
+                                  <button onClick={() => handleOpenSnapshot(snapshot.id)} className="flex-1 text-left min-w-0" title="Open Snapshot">
+                                      <p className="text-sm text-gray-200 truncate">{snapshot.name}</p>
+                                      <p className="text-xs text-gray-500">{new Date(snapshot.savedAt).toLocaleString()} · {snapshot.bodyCount} bodies</p>
+                                  </button>
+                                  <button onClick={() => handleDeleteSnapshot(snapshot.id)} className="p-1 text-gray-500 hover:text-red-400" title="Delete Snapshot">
+                                      <Trash2 className="w-4 h-4" />
+                                  </button>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
               )}
           </div>
 
@@ -374,6 +1399,17 @@ const App: React.FC = () => {
           />
       )}
 
+      {restorePrompt && (
+          <RestoreDialog 
+             summary={restorePrompt} 
+             onRestore={handleRestoreAutosave} 
+             onDiscard={() => {
+                 setRestorePrompt(null);
+                 setAutosaveEnabled(true);
+             }} 
+          />
+      )}
+
       {bodyToDelete && (
           <DeleteDialog 
              body={bodyToDelete} 
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BodyType, CelestialBody, OrbitalElements } from '../types';
+import { Check, X } from 'lucide-react';
+
+interface BodyInspectorProps {
+  body: CelestialBody;
+  allBodies: CelestialBody[];
+  onApply: (patch: Partial<CelestialBody>) => void;
+  onCancel: () => void;
+  /** Called with the edited body while a valid, changed draft has an orbit to preview; null otherwise. */
+  onPreviewChange: (preview: CelestialBody | null) => void;
+}
+
+type ElementKey = Exclude<keyof OrbitalElements, 'rates'>;
+
+// Angles are edited in degrees, everything else in the scene's units. Editing drops any ephemeris drift rates.
+const ELEMENT_FIELDS: { key: ElementKey, label: string, angle: boolean }[] = [
+  { key: 'semiMajorAxis', label: 'Semi-major axis (a)', angle: false },
+  { key: 'eccentricity', label: 'Eccentricity (e)', angle: false },
+  { key: 'inclination', label: 'Inclination (i, °)', angle: true },
+  { key: 'ascendingNode', label: 'Ascending node (Ω, °)', angle: true },
+  { key: 'periapsis', label: 'Arg. of periapsis (ω, °)', angle: true },
+  { key: 'meanAnomalyEpoch', label: 'Mean anomaly at t=0 (M₀, °)', angle: true }
+];
+
+interface Draft {
+  name: string;
+  type: BodyType;
+  mass: string;
+  radius: string;
+  color: string;
+  description: string;
+  parentId: string;
+  elements: Record<ElementKey, string> | null;
+}
+
+const toDegrees = (rad: number) => rad * 180 / Math.PI;
+const toRadians = (deg: number) => deg * Math.PI / 180;
+// Four decimals, or four significant digits for the tiny values of astronomical units
+const formatNumber = (value: number) => String(Math.abs(value) < 0.01 ? Number(value.toPrecision(4)) : Math.round(value * 10000) / 10000);
+// <input type="color"> only understands #rrggbb
+const toColorInput = (color: string) => /^#[0-9a-f]{3}$/i.test(color) ? '#' + [...color.slice(1)].map(c => c + c).join('') : color;
+
+const createDraft = (body: CelestialBody): Draft => ({
+  name: body.name,
+  type: body.type,
+  mass: formatNumber(body.mass),
+  radius: formatNumber(body.radius),
+  color: toColorInput(body.color),
+  description: body.description ?? '',
+  parentId: body.parentId ?? '',
+  elements: body.orbitalElements
+    ? Object.fromEntries(ELEMENT_FIELDS.map(({ key, angle }) => {
+        const value = body.orbitalElements![key];
+        return [key, formatNumber(angle ? toDegrees(value) : value)];
+      })) as Record<ElementKey, string>
+    : null
+});
+
+// Body field -> draft field it is edited through
+const DRAFT_FIELDS = {
+  name: 'name',
+  type: 'type',
+  mass: 'mass',
+  radius: 'radius',
+  color: 'color',
+  description: 'description',
+  parentId: 'parentId',
+  orbitalElements: 'elements'
+} as const satisfies Partial<Record<keyof CelestialBody, keyof Draft>>;
+
+/**
+ * Parses the draft into a patch of the fields that differ from `body`.
+ * Returns the validation errors by field name instead if anything is off.
+ */
+const validateDraft = (draft: Draft, body: CelestialBody, allBodies: CelestialBody[]): { patch: Partial<CelestialBody> } | { errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+  const number = (field: string, text: string, check: (n: number) => boolean, message: string) => {
+    const value = Number(text);
+    if (text.trim() === '' || !Number.isFinite(value)) errors[field] = 'Must be a number';
+    else if (!check(value)) errors[field] = message;
+    return value;
+  };
+
+  if (!draft.name.trim()) errors.name = 'Name is required';
+  const mass = number('mass', draft.mass, n => n >= 0, 'Must not be negative');
+  // Barycenters are points
+  const radius = number('radius', draft.radius, n => n > 0 || (n === 0 && draft.type === BodyType.BARYCENTER), 'Must be positive');
+
+  // A body can't (indirectly) orbit itself
+  const byId = new Map(allBodies.map(b => [b.id, b]));
+  for (let ancestor = byId.get(draft.parentId); ancestor; ancestor = ancestor.parentId ? byId.get(ancestor.parentId) : undefined) {
+    if (ancestor.id === body.id) {
+      errors.parentId = `${byId.get(draft.parentId)!.name} already orbits ${body.name}`;
+      break;
+    }
+  }
+
+  let orbitalElements: OrbitalElements | undefined;
+  if (draft.elements) {
+    const e = draft.elements;
+    const angle = (key: ElementKey) => toRadians(number(key, e[key], () => true, ''));
+    const eccentricity = number('eccentricity', e.eccentricity, n => n >= 0, 'Must not be negative');
+    // Hyperbolas have a < 0; a parabola's periapsis distance stands in for its a
+    const open = eccentricity > 1;
+    orbitalElements = {
+      semiMajorAxis: number('semiMajorAxis', e.semiMajorAxis, n => open ? n < 0 : n > 0, open ? 'Must be negative when e > 1' : 'Must be positive'),
+      eccentricity,
+      inclination: angle('inclination'),
+      ascendingNode: angle('ascendingNode'),
+      periapsis: angle('periapsis'),
+      meanAnomalyEpoch: angle('meanAnomalyEpoch')
+    };
+  }
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  const next: Partial<CelestialBody> = {
+    name: draft.name.trim(),
+    type: draft.type,
+    mass,
+    radius,
+    color: draft.color,
+    description: draft.description.trim() || undefined,
+    parentId: draft.parentId || undefined,
+    orbitalElements
+  };
+  // Compare the text the user sees, so re-parsing a rounded value doesn't count as an edit
+  const original = createDraft(body);
+  const patch: Partial<CelestialBody> = {};
+  (Object.keys(DRAFT_FIELDS) as (keyof typeof DRAFT_FIELDS)[]).forEach(key => {
+    const field = DRAFT_FIELDS[key];
+    if (JSON.stringify(draft[field]) !== JSON.stringify(original[field])) {
+      Object.assign(patch, { [key]: next[key] });
+    }
+  });
+  return { patch };
+};
+
+const Field = ({ label, error, children }: { label: string, error?: string, children: React.ReactNode }) => (
+  <label className="block">
+    <span className="text-xs text-gray-500">{label}</span>
+    {children}
+    {error && <span className="block text-xs text-red-400 mt-0.5">{error}</span>}
+  </label>
+);
+
+const inputClass = (error?: string) =>
+  `w-full bg-gray-900 border ${error ? 'border-red-500' : 'border-gray-700'} rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none`;
+
+export const BodyInspector: React.FC<BodyInspectorProps> = ({ body, allBodies, onApply, onCancel, onPreviewChange }) => {
+  const [draft, setDraft] = useState<Draft>(() => createDraft(body));
+
+  const result = useMemo(() => validateDraft(draft, body, allBodies), [draft, body, allBodies]);
+  const errors = 'errors' in result ? result.errors : {};
+  const patch = 'patch' in result ? result.patch : null;
+  // Moving to another parent with the elements untouched keeps the body where it is; its new elements are only known once fitted
+  const refit = patch !== null && 'parentId' in patch && !('orbitalElements' in patch);
+
+  useEffect(() => {
+    const changed = patch !== null && Object.keys(patch).length > 0;
+    onPreviewChange(changed && !refit && draft.elements ? { ...body, ...patch } : null);
+  }, [patch, refit, body, draft.elements, onPreviewChange]);
+
+  // Stop previewing when the inspector closes
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) => setDraft(d => ({ ...d, [key]: value }));
+  const setElement = (key: ElementKey, value: string) => setDraft(d => ({ ...d, elements: d.elements && { ...d.elements, [key]: value } }));
+
+  return (
+    <div className="space-y-3">
+      <Field label="Name" error={errors.name}>
+        <input className={inputClass(errors.name)} value={draft.name} onChange={e => set('name', e.target.value)} />
+      </Field>
+      <div className="grid grid-cols-2 gap-2">
+        <Field label="Type">
+          <select className={inputClass()} value={draft.type} onChange={e => set('type', e.target.value as BodyType)}>
+            {Object.values(BodyType).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </Field>
+        <Field label="Color">
+          <input type="color" className="w-full h-8 bg-gray-900 border border-gray-700 rounded-lg cursor-pointer" value={draft.color} onChange={e => set('color', e.target.value)} />
+        </Field>
+        <Field label="Mass (M)" error={errors.mass}>
+          <input type="number" step="any" className={inputClass(errors.mass)} value={draft.mass} onChange={e => set('mass', e.target.value)} />
+        </Field>
+        <Field label="Radius" error={errors.radius}>
+          <input type="number" step="any" className={inputClass(errors.radius)} value={draft.radius} onChange={e => set('radius', e.target.value)} />
+        </Field>
+      </div>
+      <Field label="Parent" error={errors.parentId}>
+        <select className={inputClass(errors.parentId)} value={draft.parentId} onChange={e => set('parentId', e.target.value)}>
+          <option value="">None</option>
+          {allBodies.filter(b => b.id !== body.id).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+        {refit && body.isLocked && <span className="block text-xs text-gray-500 mt-0.5">Stays where it is; its orbit is refitted around the new parent.</span>}
+      </Field>
+      <Field label="Description">
+        <textarea rows={2} className={inputClass()} value={draft.description} onChange={e => set('description', e.target.value)} />
+      </Field>
+
+      {draft.elements ? (
+        <div className="grid grid-cols-2 gap-2 pt-2 border-t border-white/10">
+          {ELEMENT_FIELDS.map(({ key, label }) => (
+            <Field key={key} label={label} error={errors[key]}>
+              <input type="number" step="any" className={inputClass(errors[key])} value={draft.elements![key]} onChange={e => setElement(key, e.target.value)} />
+            </Field>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 pt-2 border-t border-white/10">Free N-body object: put it on rails to edit its orbital elements.</p>
+      )}
+
+      <div className="flex gap-2 pt-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-2 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-white/10 transition flex items-center justify-center gap-2"
+        >
+          <X className="w-4 h-4" /> Cancel
+        </button>
+        <button
+          onClick={() => patch && onApply(patch)}
+          disabled={!patch || Object.keys(patch).length === 0}
+          className="flex-1 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white font-bold transition flex items-center justify-center gap-2 disabled:opacity-40"
+        >
+          <Check className="w-4 h-4" /> Apply
+        </button>
+      </div>
+    </div>
+  );
+};
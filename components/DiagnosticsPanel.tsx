@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CelestialBody } from '../types';
+import { SimulationClient } from '../services/simulationClient';
+import { ConservationDrift, ConservedQuantities, ConservedQuantity, isConserved, measureDrift } from '../services/diagnostics';
+import { SolverComparison } from '../services/barnesHut';
+import { Activity, AlertTriangle, RotateCcw, X } from 'lucide-react';
+
+interface DiagnosticsPanelProps {
+  simulation: SimulationClient;
+  /** The baseline is taken again whenever the body list changes, since adding or merging bodies changes the totals. */
+  bodies: CelestialBody[];
+  onClose: () => void;
+}
+
+interface DriftSample {
+  time: number;
+  drift: ConservationDrift;
+}
+
+const SAMPLE_INTERVAL = 250; // ms
+const MAX_SAMPLES = 240; // One minute of samples
+const THRESHOLDS = [1e-6, 1e-4, 1e-3, 1e-2];
+const DEFAULT_THRESHOLD = 1e-3;
+
+// Charts plot log10 of the drift between these, so round-off and blow-ups fit on the same axis
+const LOG_FLOOR = -14;
+const LOG_CEILING = 0;
+const CHART_WIDTH = 256;
+const CHART_HEIGHT = 44;
+
+const QUANTITIES: { key: ConservedQuantity, label: string }[] = [
+  { key: 'energy', label: 'Energy' },
+  { key: 'momentum', label: 'Linear momentum' },
+  { key: 'angularMomentum', label: 'Angular momentum' }
+];
+
+const chartY = (drift: number) => {
+  const log = drift > 0 ? Math.log10(drift) : LOG_FLOOR;
+  const clamped = Math.min(LOG_CEILING, Math.max(LOG_FLOOR, log));
+  return CHART_HEIGHT * (LOG_CEILING - clamped) / (LOG_CEILING - LOG_FLOOR);
+};
+
+const DriftChart = ({ label, samples, quantity, threshold, conserved }: { label: string, samples: DriftSample[], quantity: ConservedQuantity, threshold: number, conserved: boolean }) => {
+  const latest = samples.length > 0 ? samples[samples.length - 1].drift[quantity] : 0;
+  const exceeded = conserved && latest > threshold;
+  const points = samples.map((s, i) => `${(i / (MAX_SAMPLES - 1)) * CHART_WIDTH},${chartY(s.drift[quantity])}`).join(' ');
+
+  return (
+    <div className={conserved ? '' : 'opacity-50'}>
+      <div className="flex justify-between text-xs">
+        <span className="text-gray-400">{label}{!conserved && ' (not conserved)'}</span>
+        <span className={`font-mono ${exceeded ? 'text-red-400' : 'text-gray-200'}`}>{latest.toExponential(2)}</span>
+      </div>
+      <svg width={CHART_WIDTH} height={CHART_HEIGHT} className="bg-white/5 rounded border border-white/5">
+        {conserved && <line x1={0} x2={CHART_WIDTH} y1={chartY(threshold)} y2={chartY(threshold)} stroke="#ef4444" strokeOpacity={0.5} strokeDasharray="4 3" />}
+        <polyline points={points} fill="none" stroke={exceeded ? '#f87171' : '#60a5fa'} strokeWidth={1.5} />
+      </svg>
+    </div>
+  );
+};
+
+/**
+ * Plots the relative drift of the free bodies' energy, momentum and angular
+ * momentum since the panel opened (or the bodies last changed), and warns
+ * when a quantity that should be conserved drifts past the threshold. On
+ * request it also measures Barnes–Hut against direct summation.
+ */
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ simulation, bodies, onClose }) => {
+  const [samples, setSamples] = useState<DriftSample[]>([]);
+  const [latest, setLatest] = useState<ConservedQuantities | null>(null);
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD);
+  const baseline = useRef<ConservedQuantities | null>(null);
+  const [comparison, setComparison] = useState<{ theta: number, result: SolverComparison } | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  // The worker only computes the totals while someone is looking
+  useEffect(() => {
+    simulation.setDiagnosticsEnabled(true);
+    return () => simulation.setDiagnosticsEnabled(false);
+  }, [simulation]);
+
+  const restart = () => {
+    baseline.current = null;
+    setSamples([]);
+  };
+  useEffect(restart, [bodies]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const current = simulation.getDiagnostics();
+      if (!current) return;
+      setLatest(current);
+      if (!baseline.current) baseline.current = current;
+      const drift = measureDrift(baseline.current, current);
+      setSamples(previous => {
+        // Nothing new while paused
+        if (previous.length > 0 && previous[previous.length - 1].time === current.time) return previous;
+        return [...previous, { time: current.time, drift }].slice(-MAX_SAMPLES);
+      });
+    }, SAMPLE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [simulation]);
+
+  const compare = () => {
+    const { theta } = simulation.getSettings();
+    setComparing(true);
+    simulation.compareSolvers().then(result => {
+      setComparing(false);
+      setComparison(result && { theta, result });
+    });
+  };
+
+  const external = latest?.external ?? 'none';
+  const drift = samples.length > 0 ? samples[samples.length - 1].drift : null;
+  const exceeded = drift ? QUANTITIES.filter(({ key }) => isConserved(key, external) && drift[key] > threshold) : [];
+
+  return (
+    <div className="bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl p-4 shadow-2xl w-72 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-white font-bold flex items-center gap-2"><Activity className="w-4 h-4 text-emerald-400" /> Conservation</h3>
+        <div className="flex gap-2">
+          <button onClick={restart} className="text-gray-400 hover:text-white" title="Measure drift from now"><RotateCcw className="w-4 h-4" /></button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      {latest && latest.freeBodies === 0 ? (
+        <p className="text-xs text-gray-400 leading-relaxed">
+          Every body is on rails, which are exact. Release or launch a body to watch the integrator.
+        </p>
+      ) : (
+        <>
+          {QUANTITIES.map(({ key, label }) => (
+            <DriftChart key={key} label={label} samples={samples} quantity={key} threshold={threshold} conserved={isConserved(key, external)} />
+          ))}
+          {external !== 'none' && (
+            <p className="text-[10px] text-gray-500 leading-relaxed">
+              {external === 'static'
+                ? 'Fixed bodies on rails pull on the free ones, so only energy is conserved.'
+                : 'Moving bodies on rails pull on the free ones and exchange energy and momentum with them, so none of these are conserved.'}
+            </p>
+          )}
+        </>
+      )}
+
+      <label className="flex justify-between items-center text-xs text-gray-500">
+        Warn above
+        <select className="bg-gray-900 border border-gray-700 rounded px-1 text-gray-200 focus:outline-none" value={threshold} onChange={e => setThreshold(Number(e.target.value))}>
+          {THRESHOLDS.map(t => <option key={t} value={t}>{t.toExponential(0)}</option>)}
+        </select>
+      </label>
+
+      <div className="border-t border-white/10 pt-2 space-y-1">
+        <div className="flex justify-between items-center text-xs">
+          <span className="text-gray-400">Barnes–Hut vs direct summation</span>
+          <button onClick={compare} disabled={comparing} className="text-emerald-400 hover:text-emerald-300 disabled:text-gray-600" title="Compute the free bodies' accelerations both ways on the current state">
+            {comparing ? 'Measuring…' : 'Compare'}
+          </button>
+        </div>
+        {comparison && (
+          <div className="grid grid-cols-2 gap-x-2 text-[10px] font-mono">
+            <span className="text-gray-500">θ</span><span className="text-gray-200 text-right">{comparison.theta}</span>
+            <span className="text-gray-500">Max error</span><span className="text-gray-200 text-right">{comparison.result.maxRelativeError.toExponential(2)}</span>
+            <span className="text-gray-500">Mean error</span><span className="text-gray-200 text-right">{comparison.result.meanRelativeError.toExponential(2)}</span>
+            <span className="text-gray-500">Direct</span><span className="text-gray-200 text-right">{comparison.result.directMs.toFixed(2)} ms</span>
+            <span className="text-gray-500">Barnes–Hut</span><span className="text-gray-200 text-right">{comparison.result.barnesHutMs.toFixed(2)} ms</span>
+          </div>
+        )}
+      </div>
+
+      {exceeded.length > 0 && (
+        <div className="flex gap-2 items-start text-xs text-red-300 bg-red-950/60 border border-red-500/40 rounded-lg p-2">
+          <AlertTriangle className="w-4 h-4 shrink-0 text-red-400" />
+          <span>
+            {exceeded.map(q => q.label).join(', ')} drifted past {threshold.toExponential(0)}. Try RKF45 with a lower tolerance, or direct summation instead of Barnes–Hut.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useRef, useState } from 'react';
+import { SimulationEvent, SimulationEventType } from '../types';
+import { Circle } from 'lucide-react';
+
+interface EventTimelineProps {
+  events: SimulationEvent[];
+  now: number;
+  /** Stretch of time the recording covers, or null when nothing is recorded. */
+  recorded: { start: number, end: number } | null;
+  recording: boolean;
+  onRecordingChange: (recording: boolean) => void;
+  /** Called when an event's marker is clicked. */
+  onSelect: (event: SimulationEvent) => void;
+  /** Called with the time under the playhead while it is dragged. */
+  onScrub: (time: number) => void;
+  formatTime: (time: number) => string;
+}
+
+const SCRUB_INTERVAL = 150; // ms between seeks while the playhead is dragged
+
+export const EVENT_COLORS: Record<SimulationEventType, string> = {
+  collision: '#ef4444',
+  rails: '#f59e0b',
+  soi: '#22d3ee',
+  approach: '#fb923c',
+  apsis: '#60a5fa',
+  conjunction: '#a78bfa',
+  alignment: '#e879f9',
+  escape: '#4ade80'
+};
+
+const TYPE_LABELS: Record<SimulationEventType, string> = {
+  collision: 'Collisions',
+  rails: 'Rails',
+  soi: 'SOI',
+  approach: 'Approaches',
+  apsis: 'Apsides',
+  conjunction: 'Conjunctions',
+  alignment: 'Alignments',
+  escape: 'Escapes'
+};
+
+/**
+ * The event log laid out along the simulation clock, under the scene. Clicking
+ * a marker selects the event; dragging anywhere else on the track scrubs the
+ * clock. Types can be hidden from the legend, since conjunctions in a busy
+ * system can crowd out everything else.
+ */
+export const EventTimeline: React.FC<EventTimelineProps> = ({ events, now, recorded, recording, onRecordingChange, onSelect, onScrub, formatTime }) => {
+  const [hidden, setHidden] = useState<Set<SimulationEventType>>(new Set());
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  // The track's span is held still while dragging, or it would rescale under the cursor as the clock moves
+  const [dragSpan, setDragSpan] = useState<{ start: number, end: number } | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const lastScrub = useRef(0);
+
+  const times = [now, ...events.map(e => e.time)];
+  if (recorded) times.push(recorded.start, recorded.end);
+  let start = Math.min(...times), end = Math.max(...times);
+  if (end - start < 1e-9) {
+    start -= 1;
+    end += 1;
+  }
+  if (dragSpan) ({ start, end } = dragSpan);
+  const at = (time: number) => `${Math.min(1, Math.max(0, (time - start) / (end - start))) * 100}%`;
+
+  const counts = new Map<SimulationEventType, number>();
+  events.forEach(e => counts.set(e.type, (counts.get(e.type) ?? 0) + 1));
+  const visible = events.filter(e => !hidden.has(e.type));
+
+  const toggleType = (type: SimulationEventType) => setHidden(previous => {
+    const next = new Set(previous);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    return next;
+  });
+
+  const scrub = (clientX: number, final: boolean) => {
+    if (!trackRef.current) return;
+    const rect = trackRef.current.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    const time = start + fraction * (end - start);
+    setScrubTime(final ? null : time);
+    if (final || Date.now() - lastScrub.current >= SCRUB_INTERVAL) {
+      lastScrub.current = Date.now();
+      onScrub(time);
+    }
+  };
+
+  return (
+    <div className="bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl px-4 py-2 shadow-2xl space-y-1">
+      <div className="flex items-center gap-3 text-[10px]">
+        <button
+          onClick={() => onRecordingChange(!recording)}
+          className={`flex items-center gap-1 font-bold uppercase ${recording ? 'text-red-400' : 'text-gray-400 hover:text-white'}`}
+          title={recording ? 'Stop recording' : 'Record the simulation, so clicking an event or scrubbing rewinds the clock exactly to it'}
+        >
+          <Circle className={`w-3 h-3 ${recording ? 'fill-red-500 animate-pulse' : ''}`} /> Rec
+        </button>
+        <div className="flex flex-wrap gap-2 flex-1">
+          {Array.from(counts.entries()).map(([type, count]) => (
+            <button key={type} onClick={() => toggleType(type)} className={`flex items-center gap-1 ${hidden.has(type) ? 'text-gray-600' : 'text-gray-300 hover:text-white'}`} title={hidden.has(type) ? 'Show on the timeline' : 'Hide from the timeline'}>
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: hidden.has(type) ? '#4b5563' : EVENT_COLORS[type] }} />
+              {TYPE_LABELS[type]} {count}
+            </button>
+          ))}
+          {events.length === 0 && <span className="text-gray-500">Events will appear here as they happen.</span>}
+        </div>
+        <span className="font-mono text-gray-400">{formatTime(scrubTime ?? now)}</span>
+      </div>
+
+      <div
+        ref={trackRef}
+        className="relative h-6 bg-white/5 rounded border border-white/5 cursor-ew-resize touch-none"
+        onPointerDown={e => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragSpan({ start, end });
+          scrub(e.clientX, false);
+        }}
+        onPointerMove={e => dragSpan && scrub(e.clientX, false)}
+        onPointerUp={e => {
+          if (!dragSpan) return;
+          scrub(e.clientX, true);
+          setDragSpan(null);
+        }}
+      >
+        {recorded && (
+          <div className="absolute inset-y-0 bg-red-500/15" style={{ left: at(recorded.start), width: `calc(${at(recorded.end)} - ${at(recorded.start)})` }} title="Recorded" />
+        )}
+        {visible.map(event => (
+          <button
+            key={event.id}
+            className="absolute inset-y-1 w-1 -ml-0.5 rounded-sm hover:inset-y-0 hover:w-1.5"
+            style={{ left: at(event.time), backgroundColor: EVENT_COLORS[event.type] }}
+            title={`${formatTime(event.time)}: ${event.message}`}
+            onPointerDown={e => e.stopPropagation()}
+            onClick={() => onSelect(event)}
+          />
+        ))}
+        <div className="absolute inset-y-0 w-px bg-white pointer-events-none" style={{ left: at(scrubTime ?? now) }} />
+      </div>
+
+      <div className="flex justify-between text-[10px] font-mono text-gray-500">
+        <span>{formatTime(start)}</span>
+        <span>{formatTime(end)}</span>
+      </div>
+    </div>
+  );
+};
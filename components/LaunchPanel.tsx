@@ -0,0 +1,117 @@
+import React from 'react';
+import { BodyType, CelestialBody, Vector3 } from '../types';
+import { Rocket, X, Orbit, Wind } from 'lucide-react';
+
+/** What the launch tool will create, chosen before aiming. */
+export interface LaunchConfig {
+  name: string; // Left blank to let the AI name it
+  type: BodyType;
+  mass: number;
+  radius: number;
+  color: string;
+}
+
+/** Position and velocity picked by clicking and dragging on the ecliptic plane. */
+export interface LaunchAim {
+  position: Vector3;
+  velocity: Vector3;
+}
+
+export type LaunchPreset = 'circular' | 'escape';
+
+interface LaunchPanelProps {
+  config: LaunchConfig;
+  onConfigChange: (config: LaunchConfig) => void;
+  aim: LaunchAim | null;
+  bodies: CelestialBody[];
+  parentId: string;
+  onParentChange: (id: string) => void;
+  onPreset: (preset: LaunchPreset) => void;
+  onLaunch: () => void;
+  onCancel: () => void;
+  /** Smallest radius the panel accepts, in the scene's units. */
+  minRadius: number;
+  speedUnit: string;
+}
+
+const LAUNCH_TYPES = [BodyType.ASTEROID, BodyType.MOON, BodyType.PLANET, BodyType.DWARF_PLANET, BodyType.STAR, BodyType.CUSTOM];
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+export const LaunchPanel: React.FC<LaunchPanelProps> = ({ config, onConfigChange, aim, bodies, parentId, onParentChange, onPreset, onLaunch, onCancel, minRadius, speedUnit }) => {
+  const set = <K extends keyof LaunchConfig>(key: K, value: LaunchConfig[K]) => onConfigChange({ ...config, [key]: value });
+  const speed = aim ? Math.sqrt(aim.velocity.x ** 2 + aim.velocity.y ** 2 + aim.velocity.z ** 2) : 0;
+
+  return (
+    <div className="bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl p-4 shadow-2xl w-72 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-white font-bold flex items-center gap-2"><Rocket className="w-4 h-4 text-blue-400" /> Launch Body</h3>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+
+      <input className={inputClass} placeholder="Name (blank: let Gemini pick)" value={config.name} onChange={e => set('name', e.target.value)} />
+      <div className="grid grid-cols-2 gap-2">
+        <select className={inputClass} value={config.type} onChange={e => set('type', e.target.value as BodyType)}>
+          {LAUNCH_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <input type="color" className="w-full h-8 bg-gray-900 border border-gray-700 rounded-lg cursor-pointer" value={config.color} onChange={e => set('color', e.target.value)} />
+        <label className="text-xs text-gray-500">Mass
+          <input type="number" min={0} step="any" className={inputClass} value={config.mass} onChange={e => set('mass', Math.max(0, Number(e.target.value) || 0))} />
+        </label>
+        <label className="text-xs text-gray-500">Radius
+          <input type="number" min={minRadius} step="any" className={inputClass} value={config.radius} onChange={e => set('radius', Math.max(minRadius, Number(e.target.value) || minRadius))} />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-400 leading-relaxed">
+        Click the ecliptic plane to place the body, then drag to aim its velocity.
+      </p>
+
+      <div className="text-xs font-mono bg-white/5 p-2 rounded-lg border border-white/5 space-y-1">
+        {aim ? (
+          <>
+            <div className="flex justify-between"><span className="text-gray-500">Position</span><span className="text-blue-300">{aim.position.x.toPrecision(3)}, {aim.position.z.toPrecision(3)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-500">Velocity</span><span className="text-blue-300">{aim.velocity.x.toPrecision(3)}, {aim.velocity.z.toPrecision(3)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-500">Speed</span><span className="text-blue-300">{speed.toPrecision(3)} {speedUnit}</span></div>
+          </>
+        ) : (
+          <span className="text-gray-500">No launch point yet</span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-gray-500 flex items-center gap-2">Relative to
+          <select className={inputClass} value={parentId} onChange={e => onParentChange(e.target.value)}>
+            {bodies.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+          </select>
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onPreset('circular')}
+            disabled={!aim || !parentId}
+            className="flex-1 py-1.5 rounded-lg text-xs border border-white/20 text-gray-200 hover:bg-white/10 transition flex items-center justify-center gap-1 disabled:opacity-40"
+            title="Velocity for a circular orbit around the chosen body"
+          >
+            <Orbit className="w-3 h-3" /> Circular
+          </button>
+          <button
+            onClick={() => onPreset('escape')}
+            disabled={!aim || !parentId}
+            className="flex-1 py-1.5 rounded-lg text-xs border border-white/20 text-gray-200 hover:bg-white/10 transition flex items-center justify-center gap-1 disabled:opacity-40"
+            title="Velocity that just escapes the chosen body"
+          >
+            <Wind className="w-3 h-3" /> Escape
+          </button>
+        </div>
+      </div>
+
+      <button
+        onClick={onLaunch}
+        disabled={!aim}
+        className="w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-bold text-sm transition flex items-center justify-center gap-2 disabled:opacity-40"
+      >
+        <Rocket className="w-4 h-4" /> Launch
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { PhysicsSettings } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS, unitSettings } from '../constants';
+import { RotateCcw, SlidersHorizontal, X } from 'lucide-react';
+
+interface PhysicsSettingsPanelProps {
+  settings: PhysicsSettings;
+  onChange: (patch: Partial<PhysicsSettings>) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+/**
+ * A number field that only reports values `valid` accepts, so half-typed
+ * input like "1e" or "0." never reaches the running simulation.
+ */
+const NumberField = ({ label, hint, value, valid, onChange }: { label: string, hint: string, value: number, valid: (v: number) => boolean, onChange: (v: number) => void }) => {
+  const [text, setText] = useState(String(value));
+  useEffect(() => {
+    if (Number(text) !== value) setText(String(value));
+  }, [value]);
+
+  const accepted = text.trim() !== '' && valid(Number(text));
+  return (
+    <label className="block text-xs text-gray-500" title={hint}>{label}
+      <input
+        type="text"
+        inputMode="decimal"
+        className={`${inputClass} ${accepted ? '' : 'border-red-500'}`}
+        value={text}
+        onChange={e => {
+          setText(e.target.value);
+          const v = Number(e.target.value);
+          if (e.target.value.trim() !== '' && valid(v)) onChange(v);
+        }}
+      />
+    </label>
+  );
+};
+
+/** Everything the panel edits, at the defaults for the given units. */
+const panelDefaults = (units: PhysicsSettings['units']): Partial<PhysicsSettings> => {
+  const { timeStep, theta, railsGravity, mutualGravity, localFrames, soiReparenting, detectEvents } = DEFAULT_PHYSICS_SETTINGS;
+  return { ...unitSettings(units), timeStep, theta, railsGravity, mutualGravity, localFrames, soiReparenting, detectEvents };
+};
+
+const isPositive = (v: number) => Number.isFinite(v) && v > 0;
+const isNonNegative = (v: number) => Number.isFinite(v) && v >= 0;
+
+/**
+ * Edits the constants of the physics itself: G, the integrator's largest
+ * sub-step, the softening length, the Barnes–Hut opening angle, which bodies attract the free ones, how
+ * free bodies are assigned parents and integrated around them, and which
+ * events are recorded. Changes apply to the running simulation at once and
+ * are saved with the scenario.
+ */
+export const PhysicsSettingsPanel: React.FC<PhysicsSettingsPanelProps> = ({ settings, onChange, onClose }) => (
+  <div className="bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl p-4 shadow-2xl w-72 space-y-3">
+    <div className="flex justify-between items-center">
+      <h3 className="text-white font-bold flex items-center gap-2"><SlidersHorizontal className="w-4 h-4 text-amber-400" /> Physics</h3>
+      <div className="flex gap-2">
+        <button onClick={() => onChange(panelDefaults(settings.units))} className="text-gray-400 hover:text-white" title="Restore the defaults for these units"><RotateCcw className="w-4 h-4" /></button>
+        <button onClick={onClose} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+    </div>
+
+    <NumberField
+      label="Gravitational constant G"
+      hint="Also sets how fast bodies on rails go round; they keep their place in orbit when it changes"
+      value={settings.G}
+      valid={isPositive}
+      onChange={G => onChange({ G })}
+    />
+    <NumberField
+      label="Time step"
+      hint="Largest integrator sub-step; the adaptive integrator may go finer"
+      value={settings.timeStep}
+      valid={isPositive}
+      onChange={timeStep => onChange({ timeStep })}
+    />
+    <NumberField
+      label="Softening length ε"
+      hint="Gravity between two bodies goes as d / (d² + ε²)^(3/2), so close passes get a finite kick; 0 is exact Newtonian gravity"
+      value={settings.softening}
+      valid={isNonNegative}
+      onChange={softening => onChange({ softening })}
+    />
+    {settings.solver === 'barnes-hut' && (
+      <NumberField
+        label="Opening angle θ"
+        hint="A distant group of bodies is treated as one when its size over its distance is below θ; 0 is exact, larger is faster but less accurate. The diagnostics panel measures the error"
+        value={settings.theta}
+        valid={isNonNegative}
+        onChange={theta => onChange({ theta })}
+      />
+    )}
+
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+        <input type="checkbox" className="accent-blue-500" checked={settings.railsGravity} onChange={e => onChange({ railsGravity: e.target.checked })} />
+        Bodies on rails pull on free bodies
+      </label>
+      <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+        <input type="checkbox" className="accent-blue-500" checked={settings.mutualGravity} onChange={e => onChange({ mutualGravity: e.target.checked })} />
+        Free bodies pull on each other
+      </label>
+      <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer" title="A free body whose parent is free too is integrated relative to it, so a tight moon doesn't lose accuracy to its parent's large coordinates">
+        <input type="checkbox" className="accent-blue-500" checked={settings.localFrames} onChange={e => onChange({ localFrames: e.target.checked })} />
+        Integrate moons in their parent's frame
+      </label>
+      <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer" title="A free body's parent becomes whichever body's sphere of influence it is in, as in patched conics">
+        <input type="checkbox" className="accent-blue-500" checked={settings.soiReparenting} onChange={e => onChange({ soiReparenting: e.target.checked })} />
+        Reparent free bodies by sphere of influence
+      </label>
+      <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer" title="Close approaches, periapsis and apoapsis passages and escapes of free bodies, and conjunctions and alignments of planets, for the event log and timeline">
+        <input type="checkbox" className="accent-blue-500" checked={settings.detectEvents} onChange={e => onChange({ detectEvents: e.target.checked })} />
+        Detect orbital events
+      </label>
+    </div>
+
+    {settings.detectEvents && (
+      <NumberField
+        label="Close-approach distance"
+        hint="Free bodies passing with less than this between their surfaces and another body's are recorded as close approaches"
+        value={settings.approachDistance}
+        valid={isNonNegative}
+        onChange={approachDistance => onChange({ approachDistance })}
+      />
+    )}
+
+    <p className="text-[10px] text-gray-500 leading-relaxed">
+      Saved with the scenario. Switching units restores that system's G, softening and close-approach distance.
+    </p>
+  </div>
+);
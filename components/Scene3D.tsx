@@ -1,121 +1,87 @@
 import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Canvas, ThreeEvent, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Stars, Text, Trail, Line } from '@react-three/drei';
 import * as THREE from 'three';
-import { CelestialBody, Vector3, BodyType, OrbitalElements } from '../types';
-import { G_CONSTANT, TIME_STEP } from '../constants';
+import { CelestialBody, BodyType, CameraPose, OrbitalElements, UnitSystem } from '../types';
+import { TIME_SCALE, UNIT_SYSTEMS } from '../constants';
+import { elementsAt, orbitPointAtTrueAnomaly, periapsisDistance } from '../services/orbitalMechanics';
+import { SimulationClient } from '../services/simulationClient';
+import { createVisualScale, VisualScale } from '../services/visualScale';
+import { TrajectoryPrediction } from '../services/prediction';
+import { currentOrbit, influenceRadii, InfluenceRadii } from '../services/sphereOfInfluence';
+import { LaunchAim } from './LaunchPanel';
+
+/** Lets the UI read and restore the camera, e.g. for saving scenarios. */
+export interface CameraHandle {
+  getPose: () => CameraPose;
+  /** Jumps the camera to the pose and stops following any body. */
+  setPose: (pose: CameraPose) => void;
+  /** Pans to a body and follows it, as selecting it does; also when it is already selected but the camera has moved away. */
+  follow: (id: string) => void;
+}
 
 interface SceneProps {
   bodies: CelestialBody[];
-  setBodies: React.Dispatch<React.SetStateAction<CelestialBody[]>>;
+  simulation: SimulationClient;
   paused: boolean;
+  timeWarp: number; // Multiplier on TIME_SCALE; negative runs the simulation backwards
   gravityViz: boolean;
+  /** Draws every body's sphere of influence and Hill sphere. */
+  influenceViz: boolean;
   onBodyClick: (body: CelestialBody) => void;
-  selectedBody: CelestialBody | null;
+  selectedId: string | null;
+  cameraRef?: React.MutableRefObject<CameraHandle | null>;
+  /** Unapplied edit of a body whose orbit is drawn as a dashed preview. */
+  previewBody?: CelestialBody | null;
+  /** When set, clicks on the ecliptic plane place and aim a body instead of orbiting the camera. */
+  launch?: { aim: LaunchAim | null, radius: number, color: string, onAim: (aim: LaunchAim) => void } | null;
+  /** Predicted paths to draw, with their close approaches and collisions marked. */
+  predictions?: TrajectoryPrediction[];
+  /** Unit system of the physics; astronomical units are drawn through a visual scale. */
+  units: UnitSystem;
 }
 
-// --- Orbital Mechanics Helpers ---
-
-/**
- * Solves Kepler's Equation M = E - e*sin(E) for E (Eccentric Anomaly)
- * using Newton-Raphson iteration.
- */
-const solveKepler = (M: number, e: number): number => {
-    let E = M;
-    const tolerance = 1e-6;
-    for (let i = 0; i < 10; i++) {
-        const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
-        E = E - dE;
-        if (Math.abs(dE) < tolerance) break;
-    }
-    return E;
-};
-
-/**
- * Calculates the 3D position of a body given its orbital elements and current time.
- * Returns position relative to the parent body.
- */
-const calculateOrbitalPosition = (elements: OrbitalElements, time: number, parentMass: number): Vector3 => {
-    const { semiMajorAxis: a, eccentricity: e, inclination: i, ascendingNode: omega_uppercase, periapsis: omega_lowercase, meanAnomalyEpoch: M0 } = elements;
-    
-    // 1. Calculate Mean Anomaly (M)
-    // n = sqrt(mu / a^3) where mu = G * M_parent
-    const mu = G_CONSTANT * parentMass;
-    const n = Math.sqrt(mu / Math.pow(a, 3));
-    const M = M0 + n * time;
-
-    // 2. Solve for Eccentric Anomaly (E)
-    const E = solveKepler(M, e);
-
-    // 3. Calculate True Anomaly (v)
-    // tan(v/2) = sqrt((1+e)/(1-e)) * tan(E/2)
-    const v = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
-
-    // 4. Calculate Distance (r)
-    const r = a * (1 - e * Math.cos(E));
-
-    // 5. Position in Orbital Plane (Perifocal Coordinate System)
-    // x' points towards periapsis
-    const x_orb = r * Math.cos(v);
-    const y_orb = r * Math.sin(v);
-    
-    // 6. Rotate to 3D Heliocentric/Geocentric Coords
-    // We use standard rotation matrices for:
-    // - Argument of Periapsis (w)
-    // - Inclination (i)
-    // - Longitude of Ascending Node (Ω)
-    
-    const cos_w = Math.cos(omega_lowercase);
-    const sin_w = Math.sin(omega_lowercase);
-    const cos_i = Math.cos(i);
-    const sin_i = Math.sin(i);
-    const cos_O = Math.cos(omega_uppercase);
-    const sin_O = Math.sin(omega_uppercase);
-
-    // P = x_orb, Q = y_orb
-    const P = x_orb;
-    const Q = y_orb;
-
-    // Standard Astronomy Rotation (Z-up system)
-    
-    // Rotate by w around Z
-    const x1 = P * cos_w - Q * sin_w;
-    const y1 = P * sin_w + Q * cos_w;
-    const z1 = 0;
-
-    // Rotate by i around X
-    const x2 = x1;
-    const y2 = y1 * cos_i - z1 * sin_i;
-    const z2 = y1 * sin_i + z1 * cos_i;
-
-    // Rotate by Ω around Z
-    const x3 = x2 * cos_O - y2 * sin_O;
-    const y3 = x2 * sin_O + y2 * cos_O;
-    const z3 = z2;
-
-    // 7. Convert to Three.js Coordinate System (Y-up)
-    // Standard Z (North) -> Three Y.
-    // Standard X (Vernal Equinox) -> Three X.
-    // Standard Y -> Three -Z.
-    
-    return { x: x3, y: z3, z: -y3 };
-};
-
 // --- Components ---
 
-const CameraController = ({ controlsRef, selectedBody }: { controlsRef: React.RefObject<any>, selectedBody: CelestialBody | null }) => {
+const CameraController = ({ controlsRef, scale, selectedId, handleRef }: { controlsRef: React.RefObject<any>, scale: VisualScale, selectedId: string | null, handleRef?: React.MutableRefObject<CameraHandle | null> }) => {
   const { camera } = useThree();
   const [movement, setMovement] = useState({ w: false, a: false, s: false, d: false });
   const [isResetting, setIsResetting] = useState(false);
-  const [followTarget, setFollowTarget] = useState<CelestialBody | null>(null);
+  const [followTarget, setFollowTarget] = useState<string | null>(null);
+  const bodyPos = useMemo(() => new THREE.Vector3(), []);
+
+  useEffect(() => {
+    if (!handleRef) return;
+    handleRef.current = {
+      getPose: () => {
+        const target = controlsRef.current?.target ?? new THREE.Vector3();
+        return {
+          position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+          target: { x: target.x, y: target.y, z: target.z }
+        };
+      },
+      setPose: (pose) => {
+        setFollowTarget(null);
+        setIsResetting(false);
+        camera.position.set(pose.position.x, pose.position.y, pose.position.z);
+        controlsRef.current?.target.set(pose.target.x, pose.target.y, pose.target.z);
+        controlsRef.current?.update();
+      },
+      follow: (id) => {
+        setFollowTarget(id);
+        setIsResetting(false);
+      }
+    };
+    return () => { handleRef.current = null; };
+  }, [handleRef, camera, controlsRef]);
 
   // Sync follow target when prop changes
   useEffect(() => {
-    if (selectedBody) {
-        setFollowTarget(selectedBody);
+    if (selectedId) {
+        setFollowTarget(selectedId);
         setIsResetting(false);
     }
-  }, [selectedBody]);
+  }, [selectedId]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -193,9 +159,8 @@ const CameraController = ({ controlsRef, selectedBody }: { controlsRef: React.Re
         if (camera.position.distanceTo(camVec) < 1 && controlsRef.current.target.distanceTo(targetVec) < 1) {
             setIsResetting(false);
         }
-    } else if (followTarget) {
+    } else if (followTarget && scale.readPosition(followTarget, bodyPos)) {
          // Smooth Pan to selected body
-         const bodyPos = new THREE.Vector3(followTarget.position.x, followTarget.position.y, followTarget.position.z);
          
          // Interpolate target
          const currentTarget = controlsRef.current.target.clone();
@@ -216,14 +181,37 @@ const CameraController = ({ controlsRef, selectedBody }: { controlsRef: React.Re
   return null;
 }
 
-const PlanetMesh = ({ body, onClick, isSelected }: { body: CelestialBody; onClick: (b: CelestialBody) => void; isSelected: boolean }) => {
+// Pulsing halo drawn at the local origin of whatever group follows the selected body
+const SelectionHalo = ({ body, radius }: { body: CelestialBody, radius: number }) => {
+  const haloRef = useRef<THREE.Mesh>(null);
+
+  useFrame((state) => {
+    if (!haloRef.current) return;
+    const t = state.clock.getElapsedTime();
+    const scale = 1.0 + Math.sin(t * 3) * 0.15; // Pulse between 0.85 and 1.15 scale addition
+    haloRef.current.scale.set(scale, scale, scale);
+  });
+
+  return (
+    <mesh ref={haloRef}>
+        <sphereGeometry args={[radius * 1.6, 32, 32]} />
+        <meshBasicMaterial 
+            color={body.color} 
+            transparent 
+            opacity={0.3} 
+            depthWrite={false} 
+            blending={THREE.AdditiveBlending} 
+        />
+    </mesh>
+  );
+};
+
+const PlanetMesh = ({ body, scale, onClick, isSelected }: { body: CelestialBody; scale: VisualScale; onClick: (b: CelestialBody) => void; isSelected: boolean }) => {
+  const groupRef = useRef<THREE.Group>(null);
   const meshRef = useRef<THREE.Mesh>(null);
   const textureLoader = useMemo(() => new THREE.TextureLoader(), []);
   const [textureMap, setTextureMap] = useState<THREE.Texture | null>(null);
 
-  // Selection Pulse Logic
-  const haloRef = useRef<THREE.Mesh>(null);
-
   useEffect(() => {
     if (body.texture) {
       textureLoader.load(body.texture, (tex) => {
@@ -234,156 +222,293 @@ const PlanetMesh = ({ body, onClick, isSelected }: { body: CelestialBody; onClic
     }
   }, [body.texture, textureLoader]);
 
-  useFrame((state) => {
+  useFrame(() => {
+    if (groupRef.current) {
+      scale.readPosition(body.id, groupRef.current.position);
+    }
     if (meshRef.current) {
-      meshRef.current.position.set(body.position.x, body.position.y, body.position.z);
       meshRef.current.rotation.y += 0.005; // Self rotation
     }
-    if (isSelected && haloRef.current) {
-        const t = state.clock.getElapsedTime();
-        const scale = 1.0 + Math.sin(t * 3) * 0.15; // Pulse between 0.85 and 1.15 scale addition
-        haloRef.current.scale.set(scale, scale, scale);
-    }
   });
 
-  const isAsteroid = body.type === BodyType.ASTEROID;
+  const radius = scale.radius(body);
 
   return (
-    <group>
-        {/* Selection Halo */}
-        {isSelected && (
-            <mesh ref={haloRef} position={[body.position.x, body.position.y, body.position.z]}>
-                <sphereGeometry args={[body.radius * 1.6, 32, 32]} />
-                <meshBasicMaterial 
-                    color={body.color} 
-                    transparent 
-                    opacity={0.3} 
-                    depthWrite={false} 
-                    blending={THREE.AdditiveBlending} 
-                />
+    <group ref={groupRef}>
+        {isSelected && <SelectionHalo body={body} radius={radius} />}
+
+        <Trail width={1} length={20} color={body.color} attenuation={(t) => t * t}>
+            <mesh
+            ref={meshRef}
+            onClick={(e) => {
+                e.stopPropagation();
+                onClick(body);
+            }}
+            >
+            <sphereGeometry args={[radius, 32, 32]} />
+            <meshStandardMaterial
+                color={textureMap ? 'white' : body.color}
+                map={textureMap}
+                emissive={body.type === BodyType.STAR ? body.color : 'black'}
+                emissiveIntensity={body.type === BodyType.STAR ? 2 : 0}
+            />
             </mesh>
-        )}
-
-        {/* Only show trail for major bodies */}
-        {isAsteroid ? (
-             <mesh
-             ref={meshRef}
-             onClick={(e) => {
-               e.stopPropagation();
-               onClick(body);
-             }}
-           >
-             <sphereGeometry args={[body.radius, 8, 8]} />
-             <meshStandardMaterial
-               color={body.color}
-               emissive={'black'}
-             />
-           </mesh>
-        ) : (
-            <Trail width={1} length={20} color={body.color} attenuation={(t) => t * t}>
-                <mesh
-                ref={meshRef}
-                onClick={(e) => {
-                    e.stopPropagation();
-                    onClick(body);
-                }}
-                >
-                <sphereGeometry args={[body.radius, 32, 32]} />
-                <meshStandardMaterial
-                    color={textureMap ? 'white' : body.color}
-                    map={textureMap}
-                    emissive={body.type === BodyType.STAR ? body.color : 'black'}
-                    emissiveIntensity={body.type === BodyType.STAR ? 2 : 0}
-                />
-                </mesh>
-            </Trail>
-        )}
-
-        {/* Hide names for asteroids to reduce clutter */}
-        {!isAsteroid && (
-           <Text
-             position={[body.position.x, body.position.y + body.radius + 1, body.position.z]}
-             fontSize={1}
-             color="white"
-             anchorX="center"
-             anchorY="middle"
-           >
-             {body.name}
-           </Text>
-        )}
+        </Trail>
+
+        <Text
+          position={[0, radius + 1, 0]}
+          fontSize={1}
+          color="white"
+          anchorX="center"
+          anchorY="middle"
+        >
+          {body.name}
+        </Text>
     </group>
   );
 };
 
-const KeplerOrbitLine = ({ body, allBodies, isSelected }: { body: CelestialBody, allBodies: CelestialBody[], isSelected: boolean }) => {
-    const parent = allBodies.find(b => b.id === body.parentId);
-    
-    const points = useMemo(() => {
-        if (!body.orbitalElements) return [];
-        
-        const pts = [];
-        const segments = 128;
-        
-        for (let i = 0; i <= segments; i++) {
-            const M = (i / segments) * Math.PI * 2;
-            const { semiMajorAxis: a, eccentricity: e, inclination: inc, ascendingNode: O, periapsis: w } = body.orbitalElements;
-            
-            const E = solveKepler(M, e);
-            const v = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
-            const r = a * (1 - e * Math.cos(E));
-            
-            const x_orb = r * Math.cos(v);
-            const y_orb = r * Math.sin(v);
-            
-            const cos_w = Math.cos(w);
-            const sin_w = Math.sin(w);
-            const cos_i = Math.cos(inc);
-            const sin_i = Math.sin(inc);
-            const cos_O = Math.cos(O);
-            const sin_O = Math.sin(O);
-            
-            const x1 = x_orb * cos_w - y_orb * sin_w;
-            const y1 = x_orb * sin_w + y_orb * cos_w;
-            const z1 = 0;
-            
-            const x2 = x1;
-            const y2 = y1 * cos_i - z1 * sin_i;
-            const z2 = y1 * sin_i + z1 * cos_i;
-            
-            const x3 = x2 * cos_O - y2 * sin_O;
-            const y3 = x2 * sin_O + y2 * cos_O;
-            const z3 = z2;
+// A barycenter has no surface to draw, just a small marker that can still be selected
+const BarycenterMarker = ({ body, scale, onClick, isSelected }: { body: CelestialBody; scale: VisualScale; onClick: (b: CelestialBody) => void; isSelected: boolean }) => {
+  const groupRef = useRef<THREE.Group>(null);
+
+  useFrame(() => {
+    if (groupRef.current) scale.readPosition(body.id, groupRef.current.position);
+  });
+
+  return (
+    <group ref={groupRef}>
+        <mesh
+          onClick={(e) => {
+            e.stopPropagation();
+            onClick(body);
+          }}
+        >
+            <octahedronGeometry args={[0.6, 0]} />
+            <meshBasicMaterial color={isSelected ? '#38bdf8' : body.color} wireframe />
+        </mesh>
+    </group>
+  );
+};
+
+/**
+ * Draws one colour bucket of asteroids as a single InstancedMesh. Instance i
+ * is bodies[i], so click events map back to a body through their instanceId.
+ */
+const BeltInstances = ({ bodies, color, scale, onClick }: { bodies: CelestialBody[], color: string, scale: VisualScale, onClick: (b: CelestialBody) => void }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    for (let i = 0; i < bodies.length; i++) {
+      scale.readPosition(bodies[i].id, dummy.position);
+      dummy.scale.setScalar(scale.radius(bodies[i]));
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  // The instance count is fixed at creation, so the mesh is rebuilt (via key) when the bucket size changes.
+  // Frustum culling is off since instances spread far outside the unit geometry's bounds.
+  return (
+    <instancedMesh
+      key={bodies.length}
+      ref={meshRef}
+      args={[undefined, undefined, bodies.length]}
+      frustumCulled={false}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.instanceId !== undefined) onClick(bodies[e.instanceId]);
+      }}
+    >
+      {/* Unit sphere, scaled per instance by the body's radius */}
+      <sphereGeometry args={[1, 8, 8]} />
+      <meshStandardMaterial color={color} emissive={'black'} />
+    </instancedMesh>
+  );
+};
 
-            pts.push(new THREE.Vector3(x3, z3, -y3));
+// Halo for a selected asteroid, which has no mesh of its own to attach to
+const FollowingHalo = ({ body, scale }: { body: CelestialBody, scale: VisualScale }) => {
+  const groupRef = useRef<THREE.Group>(null);
+
+  useFrame(() => {
+    if (groupRef.current) scale.readPosition(body.id, groupRef.current.position);
+  });
+
+  return (
+    <group ref={groupRef}>
+        <SelectionHalo body={body} radius={scale.radius(body)} />
+    </group>
+  );
+};
+
+// Drift (radians, summed over the orientation angles) after which a line of a drifting orbit is redrawn
+const ORBIT_REDRAW_DRIFT = 0.02;
+// Open orbits are drawn out to this many periapsis distances, and further once the body is beyond that
+const OPEN_ORBIT_EXTENT = 20;
+const ORBIT_SEGMENTS = 128;
+
+const KeplerOrbitLine = ({ body, simulation, scale, isSelected, isPreview = false }: { body: CelestialBody, simulation: SimulationClient, scale: VisualScale, isSelected: boolean, isPreview?: boolean }) => {
+    // Orbits with secular rates are drawn as they are at this time
+    const [drawnAt, setDrawnAt] = useState(() => body.orbitalElements?.rates ? simulation.getTime() : 0);
+    // How far out an open orbit's line has been extended to keep ahead of the body
+    const [reach, setReach] = useState(0);
+
+    // Sampled evenly in true anomaly, which keeps the bend at periapsis smooth however eccentric the orbit
+    const { points, extent } = useMemo(() => {
+        if (!body.orbitalElements) return { points: [], extent: Infinity };
+        const elements = elementsAt(body.orbitalElements, drawnAt);
+        const e = elements.eccentricity;
+
+        // A closed loop, or one branch of a parabola or hyperbola cut off at the extent: r = p / (1 + e cos v)
+        let extent = Infinity;
+        let from = 0, to = Math.PI * 2;
+        if (e >= 1) {
+            const q = periapsisDistance(elements);
+            extent = Math.max(q * OPEN_ORBIT_EXTENT, reach);
+            to = Math.acos((q * (1 + e) / extent - 1) / e);
+            from = -to;
         }
-        return pts;
-    }, [body.orbitalElements]);
+
+        const pts = [];
+        for (let i = 0; i <= ORBIT_SEGMENTS; i++) {
+            const v = from + (i / ORBIT_SEGMENTS) * (to - from);
+            pts.push(scale.orbitOffset(body.parentId, orbitPointAtTrueAnomaly(elements, v), new THREE.Vector3()));
+        }
+        return { points: pts, extent };
+    }, [body.orbitalElements, body.parentId, scale, drawnAt, reach]);
 
     const groupRef = useRef<THREE.Group>(null);
+    const bodyPos = useMemo(() => new THREE.Vector3(), []);
+    const parentPos = useMemo(() => new THREE.Vector3(), []);
 
     useFrame(() => {
-        if (!groupRef.current || !parent) return;
-        groupRef.current.position.set(parent.position.x, parent.position.y, parent.position.z);
+        const rates = body.orbitalElements?.rates;
+        if (rates) {
+            const drift = (Math.abs(rates.inclination) + Math.abs(rates.ascendingNode) + Math.abs(rates.periapsis)) * Math.abs(simulation.getTime() - drawnAt);
+            if (drift > ORBIT_REDRAW_DRIFT) setDrawnAt(simulation.getTime());
+        }
+        if (!body.parentId) return;
+        // Extend an open orbit's line ahead of a body heading out along it, doubling it so the line is rebuilt only now and then
+        if (extent < Infinity && simulation.readPosition(body.id, bodyPos) && simulation.readPosition(body.parentId, parentPos)) {
+            if (bodyPos.distanceTo(parentPos) > extent * 0.8) setReach(extent * 2);
+        }
+        if (groupRef.current) scale.readPosition(body.parentId, groupRef.current.position);
     });
 
     if (points.length === 0) return null;
 
     return (
         <group ref={groupRef}>
-            <Line 
-                points={points} 
-                color={isSelected ? '#ffffff' : body.color} 
-                opacity={isSelected ? 0.7 : 0.2} 
-                transparent 
-                lineWidth={isSelected ? 3 : 1} 
-            />
+            {isPreview ? (
+                <Line 
+                    points={points} 
+                    color="#38bdf8" 
+                    opacity={0.9} 
+                    transparent 
+                    dashed 
+                    dashSize={1.5} 
+                    gapSize={1} 
+                    lineWidth={2} 
+                />
+            ) : (
+                <Line 
+                    points={points} 
+                    color={isSelected ? '#ffffff' : body.color} 
+                    opacity={isSelected ? 0.7 : 0.2} 
+                    transparent 
+                    lineWidth={isSelected ? 3 : 1} 
+                />
+            )}
+        </group>
+    );
+};
+
+/** A free body's state as a record, read from the latest snapshot. */
+const readLiveBody = (simulation: SimulationClient, body: CelestialBody): CelestialBody | null => {
+    const position = { x: 0, y: 0, z: 0 }, velocity = { x: 0, y: 0, z: 0 };
+    return simulation.readPosition(body.id, position) && simulation.readVelocity(body.id, velocity) ? { ...body, position, velocity } : null;
+};
+
+// Seconds between refits of a free body's orbit, which its spheres and osculating conic are drawn from
+const ORBIT_REFIT_INTERVAL = 0.25;
+
+/**
+ * The patched-conic orbit of a free body around its current parent: the
+ * osculating conic fitted to its live state, refitted a few times a second.
+ */
+const OsculatingOrbitLine = ({ body, parent, simulation, scale }: { body: CelestialBody, parent: CelestialBody, simulation: SimulationClient, scale: VisualScale }) => {
+    const [elements, setElements] = useState<OrbitalElements | null>(null);
+    const fittedAt = useRef(-Infinity);
+
+    useFrame(({ clock }) => {
+        if (clock.elapsedTime - fittedAt.current < ORBIT_REFIT_INTERVAL) return;
+        fittedAt.current = clock.elapsedTime;
+        const live = readLiveBody(simulation, body), liveParent = readLiveBody(simulation, parent);
+        setElements(live && liveParent ? currentOrbit(live, liveParent, simulation.getTime(), simulation.getSettings().G) : null);
+    });
+
+    const osculating = useMemo(() => elements && { ...body, orbitalElements: elements }, [body, elements]);
+    return osculating ? <KeplerOrbitLine body={osculating} simulation={simulation} scale={scale} isSelected /> : null;
+};
+
+/**
+ * A body's sphere of influence (wireframe) and Hill sphere (faint shell),
+ * from its rails or, for a free body, its osculating orbit around its parent.
+ */
+const InfluenceSpheres = ({ body, parent, simulation, scale }: { body: CelestialBody, parent: CelestialBody, simulation: SimulationClient, scale: VisualScale }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const soiRef = useRef<THREE.Mesh>(null);
+    const hillRef = useRef<THREE.Mesh>(null);
+    const radii = useRef<InfluenceRadii | null>(null);
+    const fittedAt = useRef(-Infinity);
+    const edge = useMemo(() => new THREE.Vector3(), []);
+
+    // Rails don't change between edits, so only free bodies are refitted
+    useEffect(() => {
+        radii.current = body.isLocked && body.orbitalElements ? influenceRadii(body.orbitalElements, body.mass, parent.mass) : null;
+        fittedAt.current = -Infinity;
+    }, [body, parent]);
+
+    useFrame(({ clock }) => {
+        const group = groupRef.current;
+        if (!group || !soiRef.current || !hillRef.current) return;
+        if (!body.isLocked && clock.elapsedTime - fittedAt.current > ORBIT_REFIT_INTERVAL) {
+            fittedAt.current = clock.elapsedTime;
+            const live = readLiveBody(simulation, body), liveParent = readLiveBody(simulation, parent);
+            const orbit = live && liveParent ? currentOrbit(live, liveParent, simulation.getTime(), simulation.getSettings().G) : null;
+            radii.current = orbit && influenceRadii(orbit, body.mass, parent.mass);
+        }
+        group.visible = radii.current !== null && scale.readPosition(body.id, group.position);
+        if (!radii.current) return;
+        // Drawn as far out as a moon at that distance would be
+        const drawn = (r: number) => scale.orbitOffset(body.id, { x: r, y: 0, z: 0 }, edge).length();
+        soiRef.current.scale.setScalar(drawn(radii.current.soi));
+        hillRef.current.scale.setScalar(drawn(radii.current.hill));
+    });
+
+    return (
+        <group ref={groupRef} visible={false}>
+            <mesh ref={soiRef}>
+                <sphereGeometry args={[1, 24, 12]} />
+                <meshBasicMaterial color={body.color} wireframe transparent opacity={0.15} depthWrite={false} />
+            </mesh>
+            <mesh ref={hillRef}>
+                <sphereGeometry args={[1, 32, 16]} />
+                <meshBasicMaterial color={body.color} transparent opacity={0.06} depthWrite={false} side={THREE.DoubleSide} />
+            </mesh>
         </group>
     );
 };
 
-const GravityWell = ({ bodies }: { bodies: CelestialBody[] }) => {
+const GravityWell = ({ bodies, scale }: { bodies: CelestialBody[], scale: VisualScale }) => {
     const shaderRef = useRef<THREE.ShaderMaterial>(null);
     const MAX_BODIES = 32;
+    const bodyPos = useMemo(() => new THREE.Vector3(), []);
 
     const uniforms = useMemo(() => ({
         uTime: { value: 0 },
@@ -401,13 +526,15 @@ const GravityWell = ({ bodies }: { bodies: CelestialBody[] }) => {
         
         for (const body of bodies) {
             if (count >= MAX_BODIES) break;
-            // Only consider massive bodies for the visualization to keep it clean
-            if (body.mass < 1.0) continue; 
+            // Only consider massive bodies for the visualization to keep it clean; a barycenter's mass is already its stars'
+            const mass = scale.wellMass(body);
+            if (mass < 1.0 || body.type === BodyType.BARYCENTER) continue; 
+            if (!scale.readPosition(body.id, bodyPos)) continue;
             
-            bodiesArray[count * 4] = body.position.x;
-            bodiesArray[count * 4 + 1] = body.position.y;
-            bodiesArray[count * 4 + 2] = body.position.z;
-            bodiesArray[count * 4 + 3] = body.mass;
+            bodiesArray[count * 4] = bodyPos.x;
+            bodiesArray[count * 4 + 1] = bodyPos.y;
+            bodiesArray[count * 4 + 2] = bodyPos.z;
+            bodiesArray[count * 4 + 3] = mass;
             count++;
         }
         shaderRef.current.uniforms.uBodyCount.value = count;
@@ -510,132 +637,201 @@ const GravityWell = ({ bodies }: { bodies: CelestialBody[] }) => {
     );
 };
 
-const SceneContent = ({ bodies, setBodies, paused, gravityViz, onBodyClick, selectedBody }: SceneProps) => {
-    
-    useFrame((state) => {
-        if (paused) return;
-
-        const nextBodies = bodies.map(b => ({ 
-            ...b, 
-            position: { ...b.position }, 
-            velocity: { ...b.velocity } 
-        }));
-
-        const bodyMap = new Map<string, CelestialBody>();
-        nextBodies.forEach(b => bodyMap.set(b.id, b));
-
-        const dt = TIME_STEP;
-        const time = state.clock.getElapsedTime() * 0.5;
-
-        // --- Physics Engine ---
-        // 1. Unlocked bodies (Asteroid spawns): Velocity Verlet
-        const getAccelerations = (currentBodies: CelestialBody[]) => {
-             return currentBodies.map((body, i) => {
-                 if (body.isLocked) return { x: 0, y: 0, z: 0 };
-                 
-                 let ax = 0, ay = 0, az = 0;
-                 for (let j = 0; j < currentBodies.length; j++) {
-                     if (i === j) continue;
-                     const other = currentBodies[j];
-                     const dx = other.position.x - body.position.x;
-                     const dy = other.position.y - body.position.y;
-                     const dz = other.position.z - body.position.z;
-                     const distSq = dx*dx + dy*dy + dz*dz;
-                     const dist = Math.sqrt(distSq);
-                     
-                     if (dist < 0.5) continue; 
-
-                     const f = (G_CONSTANT * other.mass) / distSq;
-                     ax += f * (dx / dist);
-                     ay += f * (dy / dist);
-                     az += f * (dz / dist);
-                 }
-                 return { x: ax, y: ay, z: az };
-             });
-        };
+// The aim is kept in simulation units and drawn through the visual scale; velocity is speedPerUnit per unit of drag distance
+const LaunchTool = ({ aim, radius, color, onAim, controlsRef, scale, speedPerUnit }: NonNullable<SceneProps['launch']> & { controlsRef: React.RefObject<any>, scale: VisualScale, speedPerUnit: number }) => {
+    const dragging = useRef(false);
+
+    // Orbit controls see the pointer before R3F does, so they can't be paused per drag; turn them off for the whole mode
+    useEffect(() => {
+        const controls = controlsRef.current;
+        if (controls) controls.enabled = false;
+        return () => { if (controls) controls.enabled = true; };
+    }, [controlsRef]);
+
+    const arrow = useMemo(() => {
+        if (!aim) return null;
+        const start = scale.toScene(aim.position, new THREE.Vector3());
+        const offset = new THREE.Vector3(aim.velocity.x, aim.velocity.y, aim.velocity.z).divideScalar(speedPerUnit);
+        if (offset.lengthSq() === 0) return { start, end: start, rotation: new THREE.Euler() };
+        const rotation = new THREE.Euler().setFromQuaternion(
+            new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), offset.clone().normalize())
+        );
+        return { start, end: start.clone().add(offset), rotation };
+    }, [aim, scale, speedPerUnit]);
+
+    const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+        e.stopPropagation();
+        (e.target as Element).setPointerCapture(e.pointerId);
+        dragging.current = true;
+        onAim({ position: scale.fromScene({ x: e.point.x, y: 0, z: e.point.z }, { x: 0, y: 0, z: 0 }), velocity: { x: 0, y: 0, z: 0 } });
+    };
 
-        const activePhysicsBodies = nextBodies.filter(b => !b.isLocked);
-        if (activePhysicsBodies.length > 0) {
-            const acc1 = getAccelerations(nextBodies);
-            
-            for(let i = 0; i < nextBodies.length; i++) {
-                const body = nextBodies[i];
-                if (!body.isLocked) {
-                    body.position.x += body.velocity.x * dt + 0.5 * acc1[i].x * dt * dt;
-                    body.position.y += body.velocity.y * dt + 0.5 * acc1[i].y * dt * dt;
-                    body.position.z += body.velocity.z * dt + 0.5 * acc1[i].z * dt * dt;
-                    
-                    body.velocity.x += 0.5 * acc1[i].x * dt;
-                    body.velocity.y += 0.5 * acc1[i].y * dt;
-                    body.velocity.z += 0.5 * acc1[i].z * dt;
-                }
-            }
-            
-            const acc2 = getAccelerations(nextBodies);
-            for(let i = 0; i < nextBodies.length; i++) {
-                const body = nextBodies[i];
-                if (!body.isLocked) {
-                    body.velocity.x += 0.5 * acc2[i].x * dt;
-                    body.velocity.y += 0.5 * acc2[i].y * dt;
-                    body.velocity.z += 0.5 * acc2[i].z * dt;
-                }
+    const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+        if (!dragging.current || !aim || !arrow) return;
+        e.stopPropagation();
+        onAim({
+            position: aim.position,
+            velocity: {
+                x: (e.point.x - arrow.start.x) * speedPerUnit,
+                y: 0,
+                z: (e.point.z - arrow.start.z) * speedPerUnit
             }
-        }
+        });
+    };
 
-        // 2. Locked bodies (Planets, Moons): Keplerian
-        for(let i = 0; i < nextBodies.length; i++) {
-            const body = nextBodies[i];
-            if (body.isLocked && body.orbitalElements) {
-                let parentMass = 1000;
-                let parentPos = { x: 0, y: 0, z: 0 };
-                
-                if (body.parentId) {
-                    const parent = bodyMap.get(body.parentId);
-                    if (parent) {
-                        parentMass = parent.mass;
-                        parentPos = parent.position;
-                    }
-                }
-
-                const relPos = calculateOrbitalPosition(body.orbitalElements, time, parentMass);
-                
-                body.position.x = parentPos.x + relPos.x;
-                body.position.y = parentPos.y + relPos.y;
-                body.position.z = parentPos.z + relPos.z;
-            }
+    const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+        dragging.current = false;
+        (e.target as Element).releasePointerCapture(e.pointerId);
+    };
+
+    return (
+        <>
+            <gridHelper args={[400, 40, '#1e3a8a', '#172033']} />
+            <mesh 
+                rotation={[-Math.PI / 2, 0, 0]} 
+                onPointerDown={handlePointerDown} 
+                onPointerMove={handlePointerMove} 
+                onPointerUp={handlePointerUp}
+            >
+                <planeGeometry args={[4000, 4000]} />
+                <meshBasicMaterial transparent opacity={0} depthWrite={false} side={THREE.DoubleSide} />
+            </mesh>
+            {arrow && (
+                <>
+                    <mesh position={arrow.start}>
+                        <sphereGeometry args={[scale.radius({ radius, type: BodyType.CUSTOM }), 16, 16]} />
+                        <meshBasicMaterial color={color} wireframe />
+                    </mesh>
+                    {arrow.end !== arrow.start && (
+                        <>
+                            <Line points={[arrow.start, arrow.end]} color="#38bdf8" lineWidth={2} />
+                            <mesh position={arrow.end} rotation={arrow.rotation}>
+                                <coneGeometry args={[0.6, 1.8, 12]} />
+                                <meshBasicMaterial color="#38bdf8" />
+                            </mesh>
+                        </>
+                    )}
+                </>
+            )}
+        </>
+    );
+};
+
+const PredictedPath = ({ prediction, scale }: { prediction: TrajectoryPrediction, scale: VisualScale }) => {
+    const points = useMemo(() => {
+        const pts: THREE.Vector3[] = [];
+        for (let i = 0; i < prediction.points.length; i += 3) {
+            pts.push(scale.toScene({ x: prediction.points[i], y: prediction.points[i + 1], z: prediction.points[i + 2] }, new THREE.Vector3()));
         }
+        return pts;
+    }, [prediction, scale]);
 
-        setBodies(nextBodies);
+    if (points.length < 2) return null;
+
+    return (
+        <>
+            <Line points={points} color="#fbbf24" opacity={0.8} transparent dashed dashSize={1} gapSize={0.6} lineWidth={1.5} />
+            {prediction.encounters.map(encounter => (
+                <mesh key={encounter.otherId} position={scale.toScene(encounter.position, new THREE.Vector3())}>
+                    <sphereGeometry args={[encounter.collision ? 0.8 : 0.5, 12, 12]} />
+                    <meshBasicMaterial color={encounter.collision ? '#ef4444' : '#fbbf24'} wireframe={!encounter.collision} />
+                </mesh>
+            ))}
+        </>
+    );
+};
+
+// Cap on the real-time delta fed to the engine so a backgrounded tab doesn't trigger a huge catch-up step
+const MAX_FRAME_DELTA = 0.1;
+
+const SceneContent = ({ bodies, simulation, paused, timeWarp, gravityViz, influenceViz, onBodyClick, selectedId, cameraRef, previewBody, launch, predictions, units }: SceneProps) => {
+
+    // Only requests the step; positions arrive asynchronously from the worker
+    // and are read by each mesh in its own useFrame, so no React render per frame.
+    useFrame((_, delta) => {
+        if (paused) return;
+        simulation.step(Math.min(delta, MAX_FRAME_DELTA) * TIME_SCALE * timeWarp);
     });
 
     const controlsRef = useRef<any>(null);
 
+    // Asteroids are drawn instanced, bucketed by colour; everything else gets its own mesh
+    const { majorBodies, beltBuckets } = useMemo(() => {
+        const majorBodies: CelestialBody[] = [];
+        const beltBuckets = new Map<string, CelestialBody[]>();
+        for (const body of bodies) {
+            if (body.type !== BodyType.ASTEROID) {
+                majorBodies.push(body);
+                continue;
+            }
+            const bucket = beltBuckets.get(body.color);
+            if (bucket) bucket.push(body);
+            else beltBuckets.set(body.color, [body]);
+        }
+        return { majorBodies, beltBuckets };
+    }, [bodies]);
+
+    const selectedAsteroid = bodies.find(b => b.id === selectedId && b.type === BodyType.ASTEROID);
+    const scale = useMemo(() => createVisualScale(simulation, bodies, units), [simulation, bodies, units]);
+    const byId = useMemo(() => new Map(bodies.map(b => [b.id, b])), [bodies]);
+    const parentOf = (body: CelestialBody) => body.parentId ? byId.get(body.parentId) : undefined;
+    const selectedFree = bodies.find(b => b.id === selectedId && !b.isLocked);
+    const selectedFreeParent = selectedFree && parentOf(selectedFree);
+
     return (
         <>
             <ambientLight intensity={0.2} />
             <pointLight position={[0, 0, 0]} intensity={2} color="#FDB813" />
             <Stars radius={300} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
             
-            <CameraController controlsRef={controlsRef} selectedBody={selectedBody} />
+            <CameraController controlsRef={controlsRef} scale={scale} selectedId={selectedId} handleRef={cameraRef} />
 
-            {gravityViz && <GravityWell bodies={bodies} />}
+            {gravityViz && <GravityWell bodies={bodies} scale={scale} />}
 
-            {bodies.map(body => (
+            {majorBodies.map(body => (
                 <React.Fragment key={body.id}>
-                    <PlanetMesh 
-                        body={body} 
-                        onClick={onBodyClick} 
-                        isSelected={selectedBody?.id === body.id}
-                    />
-                    {body.orbitalElements && body.type !== BodyType.ASTEROID && (
+                    {body.type === BodyType.BARYCENTER ? (
+                        <BarycenterMarker body={body} scale={scale} onClick={onBodyClick} isSelected={selectedId === body.id} />
+                    ) : (
+                        <PlanetMesh 
+                            body={body} 
+                            scale={scale}
+                            onClick={onBodyClick} 
+                            isSelected={selectedId === body.id}
+                        />
+                    )}
+                    {body.orbitalElements && (
                         <KeplerOrbitLine 
                             body={body} 
-                            allBodies={bodies} 
-                            isSelected={selectedBody?.id === body.id}
+                            simulation={simulation} 
+                            scale={scale}
+                            isSelected={selectedId === body.id}
                         />
                     )}
+                    {influenceViz && parentOf(body) && (
+                        <InfluenceSpheres body={body} parent={parentOf(body)!} simulation={simulation} scale={scale} />
+                    )}
                 </React.Fragment>
             ))}
+
+            {Array.from(beltBuckets, ([color, bucket]) => (
+                <BeltInstances 
+                    key={color} 
+                    bodies={bucket} 
+                    color={color} 
+                    scale={scale} 
+                    onClick={onBodyClick} 
+                />
+            ))}
+            {launch && <LaunchTool {...launch} controlsRef={controlsRef} scale={scale} speedPerUnit={UNIT_SYSTEMS[units].launchSpeedPerUnit} />}
+            {previewBody?.orbitalElements && (
+                <KeplerOrbitLine body={previewBody} simulation={simulation} scale={scale} isSelected={false} isPreview />
+            )}
+            {predictions?.map(prediction => <PredictedPath key={prediction.id} prediction={prediction} scale={scale} />)}
+            {selectedFree && selectedFreeParent && (
+                <OsculatingOrbitLine key={selectedFree.id} body={selectedFree} parent={selectedFreeParent} simulation={simulation} scale={scale} />
+            )}
+            {selectedAsteroid && <FollowingHalo body={selectedAsteroid} scale={scale} />}
             
             <OrbitControls ref={controlsRef} minDistance={5} maxDistance={900} />
         </>
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { CelestialBody } from '../types';
+import { BeltSpec, generateSystem, SystemSpec } from '../services/systemGenerator';
+import { createSeed } from '../services/random';
+import { Wand2, X, Dices, Plus, Trash2 } from 'lucide-react';
+
+interface SystemGeneratorProps {
+  spec: SystemSpec;
+  onSpecChange: (spec: SystemSpec) => void;
+  /** Called with the generated system, which replaces the current scene. */
+  onGenerate: (name: string, bodies: CelestialBody[]) => void;
+  onCancel: () => void;
+}
+
+const BELT_COLORS = ['#7f8c8d', '#6c5ce7', '#a1887f', '#90a4ae'];
+
+const toDegrees = (rad: number) => Math.round(rad * 180 / Math.PI * 100) / 100;
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const NumberField = ({ label, value, onChange, step = 'any' }: { label: string, value: number, onChange: (value: number) => void, step?: string }) => (
+  <label className="text-xs text-gray-500">{label}
+    <input type="number" step={step} className={inputClass} value={value} onChange={e => onChange(Number(e.target.value))} />
+  </label>
+);
+
+export const SystemGenerator: React.FC<SystemGeneratorProps> = ({ spec, onSpecChange, onGenerate, onCancel }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const set = <K extends keyof SystemSpec>(key: K, value: SystemSpec[K]) => onSpecChange({ ...spec, [key]: value });
+  const setBelt = (index: number, patch: Partial<BeltSpec>) =>
+    set('belts', spec.belts.map((belt, i) => i === index ? { ...belt, ...patch } : belt));
+
+  const addBelt = () => {
+    const outermost = spec.belts.reduce((max, belt) => Math.max(max, belt.outerRadius), 0);
+    set('belts', [...spec.belts, {
+      name: `Belt ${spec.belts.length + 1}`,
+      count: 300,
+      innerRadius: outermost + 20,
+      outerRadius: outermost + 40,
+      eccentricitySpread: 0.1,
+      inclinationSpread: 0.1,
+      color: BELT_COLORS[spec.belts.length % BELT_COLORS.length]
+    }]);
+  };
+
+  const handleGenerate = () => {
+    try {
+      const { name, bodies } = generateSystem(spec);
+      setError(null);
+      onGenerate(name, bodies);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-black/80 backdrop-blur-lg border border-white/10 rounded-2xl p-4 shadow-2xl w-80 max-h-[70vh] overflow-y-auto space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-white font-bold flex items-center gap-2"><Wand2 className="w-4 h-4 text-purple-400" /> Generate System</h3>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+
+      <label className="text-xs text-gray-500 block">Seed
+        <div className="flex gap-2">
+          <input className={inputClass} value={spec.seed} onChange={e => set('seed', e.target.value)} />
+          <button
+            onClick={() => set('seed', createSeed())}
+            className="px-2 rounded-lg border border-white/20 text-gray-200 hover:bg-white/10 transition"
+            title="Random seed"
+          >
+            <Dices className="w-4 h-4" />
+          </button>
+        </div>
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-500">Stars
+          <select className={inputClass} value={spec.starCount} onChange={e => set('starCount', Number(e.target.value) as SystemSpec['starCount'])}>
+            <option value={1}>Single</option>
+            <option value={2}>Binary</option>
+            <option value={3}>Trinary</option>
+          </select>
+        </label>
+        <NumberField label="Planets" step="1" value={spec.planetCount} onChange={v => set('planetCount', v)} />
+        <NumberField label="First orbit" value={spec.firstOrbit} onChange={v => set('firstOrbit', v)} />
+        <NumberField label="Spacing ratio" value={spec.spacing} onChange={v => set('spacing', v)} />
+        <NumberField label="Max moons / planet" step="1" value={spec.maxMoons} onChange={v => set('maxMoons', v)} />
+      </div>
+
+      <div className="pt-2 border-t border-white/10 space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-gray-400 font-bold">Belts</span>
+          <button onClick={addBelt} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"><Plus className="w-3 h-3" /> Add</button>
+        </div>
+        {spec.belts.map((belt, i) => (
+          <div key={i} className="bg-white/5 border border-white/5 rounded-lg p-2 space-y-2">
+            <div className="flex gap-2 items-center">
+              <input className={inputClass} value={belt.name} onChange={e => setBelt(i, { name: e.target.value })} />
+              <input type="color" className="w-10 h-8 shrink-0 bg-gray-900 border border-gray-700 rounded-lg cursor-pointer" value={belt.color} onChange={e => setBelt(i, { color: e.target.value })} />
+              <button onClick={() => set('belts', spec.belts.filter((_, j) => j !== i))} className="text-gray-500 hover:text-red-400" title="Remove belt">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Bodies" step="1" value={belt.count} onChange={v => setBelt(i, { count: v })} />
+              <NumberField label="Max eccentricity" value={belt.eccentricitySpread} onChange={v => setBelt(i, { eccentricitySpread: v })} />
+              <NumberField label="Inner radius" value={belt.innerRadius} onChange={v => setBelt(i, { innerRadius: v })} />
+              <NumberField label="Outer radius" value={belt.outerRadius} onChange={v => setBelt(i, { outerRadius: v })} />
+              <NumberField label="Max inclination (°)" value={toDegrees(belt.inclinationSpread)} onChange={v => setBelt(i, { inclinationSpread: toRadians(v) })} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <p className="text-xs text-gray-400 leading-relaxed">
+        Replaces the current scene. The same seed and settings always produce the same system.
+      </p>
+      <button
+        onClick={handleGenerate}
+        className="w-full py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-bold text-sm transition flex items-center justify-center gap-2"
+      >
+        <Wand2 className="w-4 h-4" /> Generate
+      </button>
+    </div>
+  );
+};
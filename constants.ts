@@ -1,12 +1,81 @@
-import { BodyType, CelestialBody, Vector3 } from './types';
+import { BodyType, CelestialBody, PhysicsSettings, UnitSystem, Vector3 } from './types';
+import { createRandom } from './services/random';
 
 export const G_CONSTANT = 0.5; // Adjusted for visual simulation speed
-export const TIME_STEP = 0.1; // Increased for better feel with Verlet integration
+export const TIME_STEP = 0.1; // Default largest integrator sub-step; bigger frame steps are split into several
+export const TIME_SCALE = 0.5; // Simulation time units advanced per real-time second
+export const TIME_WARP_PRESETS = [-100, -10, -1, 0.1, 1, 10, 100, 1000]; // Multipliers on TIME_SCALE; negative runs backwards
+export const DEFAULT_SEED = 'cosmos'; // Used unless the URL asks for another (?seed=...)
+
+export interface UnitSystemConstants {
+  G: number; // Default gravitational constant, which the physics settings may override
+  softening: number; // Default Plummer softening length, about the size of the smallest bodies
+  approachDistance: number; // Default surface gap that counts as a close approach
+  launchSpeedPerUnit: number; // Speed one drawn unit of the launch arrow stands for
+  launchBody: { mass: number, radius: number, minRadius: number }; // Launch tool defaults and smallest radius allowed
+  minFragment: { mass: number, radius: number }; // Bodies that would break into pieces smaller than this bounce instead
+  prediction: { interval: number, minRailsMass: number }; // Time between predicted samples; lighter rails bodies are left out of predictions
+  labels: { distance: string, speed: string, mass: string }; // Units shown after values; distance has none in simulation units
+}
+
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitSystemConstants> = {
+  simulation: {
+    G: G_CONSTANT,
+    softening: 0.05,
+    approachDistance: 2,
+    launchSpeedPerUnit: 0.25,
+    launchBody: { mass: 1, radius: 0.5, minRadius: 0.05 },
+    minFragment: { mass: 0.005, radius: 0.04 },
+    prediction: { interval: 0.5, minRailsMass: 0.1 },
+    labels: { distance: '', speed: 'km/s', mass: 'M' }
+  },
+  // Gaussian gravitational constant squared: AU^3 / (solar mass * day^2)
+  astronomical: {
+    G: 0.01720209895 ** 2,
+    softening: 1e-6,
+    approachDistance: 0.05, // The usual threshold for near-Earth objects
+    launchSpeedPerUnit: 0.001,
+    launchBody: { mass: 1e-12, radius: 1e-6, minRadius: 1e-9 },
+    // About a 1 km rock
+    minFragment: { mass: 1e-18, radius: 4e-9 },
+    // Some 400 days ahead; every planet and the large moons down to about Pluto's mass, but not the belts
+    prediction: { interval: 2, minRailsMass: 1e-9 },
+    labels: { distance: 'AU', speed: 'AU/d', mass: 'M☉' }
+  }
+};
+
+export const DEFAULT_PHYSICS_SETTINGS: PhysicsSettings = {
+  solver: 'direct',
+  theta: 0.5,
+  integrator: 'verlet',
+  tolerance: 1e-6,
+  collisionMode: 'merge',
+  restitution: 0.8,
+  unlockOnImpact: false,
+  units: 'simulation',
+  G: G_CONSTANT,
+  timeStep: TIME_STEP,
+  softening: UNIT_SYSTEMS.simulation.softening,
+  railsGravity: true,
+  mutualGravity: true,
+  localFrames: false,
+  soiReparenting: true,
+  detectEvents: true,
+  approachDistance: UNIT_SYSTEMS.simulation.approachDistance
+};
+
+/** Settings that change with the unit system, at its defaults; for switching to it. */
+export const unitSettings = (units: UnitSystem): Pick<PhysicsSettings, 'units' | 'G' | 'softening' | 'approachDistance'> => ({
+  units,
+  G: UNIT_SYSTEMS[units].G,
+  softening: UNIT_SYSTEMS[units].softening,
+  approachDistance: UNIT_SYSTEMS[units].approachDistance
+});
 
 // Helper to convert degrees to radians
 const degToRad = (deg: number) => (deg * Math.PI) / 180;
 
-const PLANETS: CelestialBody[] = [
+const createPlanets = (random: () => number): CelestialBody[] => [
   {
     id: 'sun',
     name: 'Sun',
@@ -34,7 +103,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(7),
         ascendingNode: degToRad(48),
         periapsis: degToRad(29),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -55,7 +124,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(3.4),
         ascendingNode: degToRad(76),
         periapsis: degToRad(55),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -76,7 +145,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(0), // Reference plane
         ascendingNode: degToRad(0), // Reference plane
         periapsis: degToRad(102),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -97,7 +166,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(1.85),
         ascendingNode: degToRad(49),
         periapsis: degToRad(286),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -118,7 +187,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(1.3),
         ascendingNode: degToRad(100),
         periapsis: degToRad(273),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -139,7 +208,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(2.48),
         ascendingNode: degToRad(113),
         periapsis: degToRad(339),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -160,7 +229,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(0.77),
         ascendingNode: degToRad(74),
         periapsis: degToRad(96),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -181,7 +250,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(1.77),
         ascendingNode: degToRad(131),
         periapsis: degToRad(273),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -202,7 +271,7 @@ const PLANETS: CelestialBody[] = [
         inclination: degToRad(17.16),
         ascendingNode: degToRad(110),
         periapsis: degToRad(113),
-        meanAnomalyEpoch: Math.random() * 6
+        meanAnomalyEpoch: random() * 6
     },
     isLocked: true,
     parentId: 'sun',
@@ -210,7 +279,7 @@ const PLANETS: CelestialBody[] = [
   }
 ];
 
-const MOONS: CelestialBody[] = [
+const createMoons = (random: () => number): CelestialBody[] => [
     {
         id: 'moon',
         name: 'Moon',
@@ -224,9 +293,9 @@ const MOONS: CelestialBody[] = [
             semiMajorAxis: 3,
             eccentricity: 0.0549,
             inclination: degToRad(5.14),
-            ascendingNode: Math.random() * 6,
-            periapsis: Math.random() * 6,
-            meanAnomalyEpoch: Math.random() * 6
+            ascendingNode: random() * 6,
+            periapsis: random() * 6,
+            meanAnomalyEpoch: random() * 6
         },
         isLocked: true,
         parentId: 'earth',
@@ -245,9 +314,9 @@ const MOONS: CelestialBody[] = [
             semiMajorAxis: 5,
             eccentricity: 0.0041,
             inclination: degToRad(0.05),
-            ascendingNode: Math.random() * 6,
-            periapsis: Math.random() * 6,
-            meanAnomalyEpoch: Math.random() * 6
+            ascendingNode: random() * 6,
+            periapsis: random() * 6,
+            meanAnomalyEpoch: random() * 6
         },
         isLocked: true,
         parentId: 'jupiter',
@@ -266,9 +335,9 @@ const MOONS: CelestialBody[] = [
             semiMajorAxis: 7,
             eccentricity: 0.009,
             inclination: degToRad(0.47),
-            ascendingNode: Math.random() * 6,
-            periapsis: Math.random() * 6,
-            meanAnomalyEpoch: Math.random() * 6
+            ascendingNode: random() * 6,
+            periapsis: random() * 6,
+            meanAnomalyEpoch: random() * 6
         },
         isLocked: true,
         parentId: 'jupiter',
@@ -287,9 +356,9 @@ const MOONS: CelestialBody[] = [
             semiMajorAxis: 8,
             eccentricity: 0.0288,
             inclination: degToRad(0.348),
-            ascendingNode: Math.random() * 6,
-            periapsis: Math.random() * 6,
-            meanAnomalyEpoch: Math.random() * 6
+            ascendingNode: random() * 6,
+            periapsis: random() * 6,
+            meanAnomalyEpoch: random() * 6
         },
         isLocked: true,
         parentId: 'saturn',
@@ -297,33 +366,33 @@ const MOONS: CelestialBody[] = [
     }
 ];
 
-const generateRing = (count: number, minRadius: number, maxRadius: number, namePrefix: string, color: string, parentId: string = 'sun'): CelestialBody[] => {
+const generateRing = (random: () => number, count: number, minRadius: number, maxRadius: number, namePrefix: string, color: string, parentId: string = 'sun'): CelestialBody[] => {
     const bodies: CelestialBody[] = [];
     for(let i=0; i<count; i++) {
         // Generate random orbital elements for the belt
-        const semiMajorAxis = minRadius + Math.random() * (maxRadius - minRadius);
-        const eccentricity = Math.random() * 0.2; // Some eccentricity
-        const inclination = (Math.random() - 0.5) * 0.4; // +/- 11 degrees ish
-        const ascendingNode = Math.random() * Math.PI * 2;
-        const periapsis = Math.random() * Math.PI * 2;
-        const meanAnomalyEpoch = Math.random() * Math.PI * 2;
+        const semiMajorAxis = minRadius + random() * (maxRadius - minRadius);
+        const eccentricity = random() * 0.2; // Some eccentricity
+        const inclination = (random() - 0.5) * 0.4; // +/- 11 degrees ish
+        const ascendingNode = random() * Math.PI * 2;
+        const periapsis = random() * Math.PI * 2;
+        const meanAnomalyEpoch = random() * Math.PI * 2;
 
         // Random sizes: mostly small, some larger for variety
-        const scale = Math.random();
+        const scale = random();
         let radius;
         if (scale > 0.98) {
-             radius = 0.3 + Math.random() * 0.3; // Very Rare Large
+             radius = 0.3 + random() * 0.3; // Very Rare Large
         } else if (scale > 0.90) {
-             radius = 0.15 + Math.random() * 0.15; // Rare Medium
+             radius = 0.15 + random() * 0.15; // Rare Medium
         } else {
-             radius = 0.04 + Math.random() * 0.06; // Common Small
+             radius = 0.04 + random() * 0.06; // Common Small
         }
 
         bodies.push({
-            id: `${namePrefix}_${Math.random().toString(36).substr(2, 6)}`,
+            id: `${namePrefix}_${random().toString(36).substr(2, 6)}`,
             name: `${namePrefix} ${i}`,
             type: BodyType.ASTEROID,
-            mass: 0.01 + Math.random() * 0.05,
+            mass: 0.01 + random() * 0.05,
             radius: radius,
             color: color,
             position: { x: 0, y: 0, z: 0 }, // Calculated by physics engine or orbital prop
@@ -344,17 +413,15 @@ const generateRing = (count: number, minRadius: number, maxRadius: number, nameP
     return bodies;
 };
 
-// Generate Asteroid Belt (Between Mars and Jupiter)
-// Increased density: 1200 asteroids
-const ASTEROID_BELT = generateRing(1200, 42, 58, 'Asteroid', '#7f8c8d');
-
-// Generate Kuiper Belt (Beyond Neptune)
-// Increased density: 1200 objects
-const KUIPER_BELT = generateRing(1200, 240, 300, 'KBO', '#6c5ce7');
-
-export const INITIAL_BODIES: CelestialBody[] = [
-    ...PLANETS,
-    ...MOONS,
-    ...ASTEROID_BELT,
-    ...KUIPER_BELT
-];
\ No newline at end of file
+/** The Solar System with both belts. The same seed always places every body identically. */
+export const createInitialBodies = (seed: string): CelestialBody[] => {
+    const random = createRandom(seed);
+    return [
+        ...createPlanets(random),
+        ...createMoons(random),
+        // Asteroid Belt (between Mars and Jupiter)
+        ...generateRing(random, 1200, 42, 58, 'Asteroid', '#7f8c8d'),
+        // Kuiper Belt (beyond Neptune)
+        ...generateRing(random, 1200, 240, 300, 'KBO', '#6c5ce7')
+    ];
+};
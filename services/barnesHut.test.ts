@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { BodyType, CelestialBody } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS } from '../constants';
+import { createRandom } from './random';
+import { createBodyArrays } from './gravity';
+import { compareWithDirectSummation } from './barnesHut';
+
+// A few hundred free asteroids scattered through a cube, as in a generated debris field
+const cluster = (count: number): CelestialBody[] => {
+    const random = createRandom('cluster');
+    return Array.from({ length: count }, (_, i) => ({
+        id: `rock-${i}`,
+        name: `Rock ${i}`,
+        type: BodyType.ASTEROID,
+        mass: 0.5 + random(),
+        radius: 0.05,
+        color: '#888888',
+        position: { x: random() * 100 - 50, y: random() * 100 - 50, z: random() * 100 - 50 },
+        velocity: { x: 0, y: 0, z: 0 }
+    }));
+};
+
+describe('compareWithDirectSummation', () => {
+    const arrays = createBodyArrays(cluster(300));
+
+    it('matches direct summation at θ = 0', () => {
+        const { maxRelativeError } = compareWithDirectSummation(arrays, 0, DEFAULT_PHYSICS_SETTINGS);
+        expect(maxRelativeError).toBeLessThan(1e-10);
+    });
+
+    it('stays within 10% for every body and 1% on average at θ = 0.5', () => {
+        const { maxRelativeError, meanRelativeError } = compareWithDirectSummation(arrays, 0.5, DEFAULT_PHYSICS_SETTINGS);
+        expect(maxRelativeError).toBeGreaterThan(0);
+        expect(maxRelativeError).toBeLessThan(0.1);
+        expect(meanRelativeError).toBeLessThan(0.01);
+    });
+});
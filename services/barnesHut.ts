@@ -0,0 +1,317 @@
+import { DEFAULT_PHYSICS_SETTINGS } from '../constants';
+import { attracts, BodyArrays, computeDirectAccelerations, GravitySettings } from './gravity';
+
+// --- Barnes–Hut Octree ---
+// Nodes live in flat typed arrays that are reused between builds. The 8
+// children of a node are allocated contiguously, so a node only stores the
+// index of its first child. Leaves keep a linked list of body indices
+// (normally a single body; several only at MAX_DEPTH, e.g. coincident bodies).
+
+const MAX_DEPTH = 32;
+
+interface Octree {
+    capacity: number;
+    nodeCount: number;
+    centerX: Float64Array;
+    centerY: Float64Array;
+    centerZ: Float64Array;
+    halfSize: Float64Array;
+    mass: Float64Array;
+    comX: Float64Array;
+    comY: Float64Array;
+    comZ: Float64Array;
+    firstChild: Int32Array;
+    head: Int32Array;
+    bodyCount: Int32Array;
+    nextBody: Int32Array;
+}
+
+const createOctree = (capacity: number, bodyCapacity: number): Octree => ({
+    capacity,
+    nodeCount: 0,
+    centerX: new Float64Array(capacity),
+    centerY: new Float64Array(capacity),
+    centerZ: new Float64Array(capacity),
+    halfSize: new Float64Array(capacity),
+    mass: new Float64Array(capacity),
+    comX: new Float64Array(capacity),
+    comY: new Float64Array(capacity),
+    comZ: new Float64Array(capacity),
+    firstChild: new Int32Array(capacity),
+    head: new Int32Array(capacity),
+    bodyCount: new Int32Array(capacity),
+    nextBody: new Int32Array(bodyCapacity)
+});
+
+let sharedTree: Octree | null = null;
+
+/** Returns a tree big enough for `bodies`, reusing the previous allocation where possible. */
+const acquireTree = (bodies: number): Octree => {
+    // An octree over n points has at most ~n * 8 / 7 * depth nodes, but in practice
+    // stays near 2n–4n. Start generously and grow on demand in growTree.
+    const wanted = Math.max(64, bodies * 4);
+    if (!sharedTree || sharedTree.capacity < wanted || sharedTree.nextBody.length < bodies) {
+        sharedTree = createOctree(wanted, Math.max(bodies, 1));
+    }
+    sharedTree.nodeCount = 0;
+    return sharedTree;
+};
+
+const growTree = (tree: Octree): Octree => {
+    const grown = createOctree(tree.capacity * 2, tree.nextBody.length);
+    grown.nodeCount = tree.nodeCount;
+    grown.centerX.set(tree.centerX);
+    grown.centerY.set(tree.centerY);
+    grown.centerZ.set(tree.centerZ);
+    grown.halfSize.set(tree.halfSize);
+    grown.mass.set(tree.mass);
+    grown.comX.set(tree.comX);
+    grown.comY.set(tree.comY);
+    grown.comZ.set(tree.comZ);
+    grown.firstChild.set(tree.firstChild);
+    grown.head.set(tree.head);
+    grown.bodyCount.set(tree.bodyCount);
+    grown.nextBody.set(tree.nextBody);
+    sharedTree = grown;
+    return grown;
+};
+
+const initNode = (tree: Octree, node: number, x: number, y: number, z: number, half: number) => {
+    tree.centerX[node] = x;
+    tree.centerY[node] = y;
+    tree.centerZ[node] = z;
+    tree.halfSize[node] = half;
+    tree.mass[node] = 0;
+    tree.comX[node] = 0;
+    tree.comY[node] = 0;
+    tree.comZ[node] = 0;
+    tree.firstChild[node] = -1;
+    tree.head[node] = -1;
+    tree.bodyCount[node] = 0;
+};
+
+const octantOf = (tree: Octree, node: number, x: number, y: number, z: number): number =>
+    (x >= tree.centerX[node] ? 1 : 0) | (y >= tree.centerY[node] ? 2 : 0) | (z >= tree.centerZ[node] ? 4 : 0);
+
+/**
+ * Builds the octree over every body that attracts under `settings` and
+ * accumulates each node's total mass and centre of mass.
+ */
+const buildOctree = (arrays: BodyArrays, settings: GravitySettings): Octree => {
+    const { count, positions, masses } = arrays;
+    let tree = acquireTree(count);
+
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    for (let i = 0; i < count; i++) {
+        const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+        if (x < minX) minX = x; if (x > maxX) maxX = x;
+        if (y < minY) minY = y; if (y > maxY) maxY = y;
+        if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
+    }
+    const half = Math.max(maxX - minX, maxY - minY, maxZ - minZ, 1) / 2 * 1.001;
+    initNode(tree, 0, (minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2, half);
+    tree.nodeCount = 1;
+
+    for (let b = 0; b < count; b++) {
+        if (!attracts(arrays, b, settings)) continue;
+        const x = positions[b * 3], y = positions[b * 3 + 1], z = positions[b * 3 + 2];
+
+        let node = 0;
+        let depth = 0;
+        while (true) {
+            if (tree.firstChild[node] >= 0) {
+                node = tree.firstChild[node] + octantOf(tree, node, x, y, z);
+                depth++;
+                continue;
+            }
+
+            if (tree.bodyCount[node] === 0 || depth >= MAX_DEPTH) {
+                tree.nextBody[b] = tree.head[node];
+                tree.head[node] = b;
+                tree.bodyCount[node]++;
+                break;
+            }
+
+            // Occupied leaf: split it and push the resident body down one level
+            if (tree.nodeCount + 8 > tree.capacity) tree = growTree(tree);
+            const first = tree.nodeCount;
+            tree.nodeCount += 8;
+            const childHalf = tree.halfSize[node] / 2;
+            for (let o = 0; o < 8; o++) {
+                initNode(
+                    tree,
+                    first + o,
+                    tree.centerX[node] + (o & 1 ? childHalf : -childHalf),
+                    tree.centerY[node] + (o & 2 ? childHalf : -childHalf),
+                    tree.centerZ[node] + (o & 4 ? childHalf : -childHalf),
+                    childHalf
+                );
+            }
+            tree.firstChild[node] = first;
+
+            const resident = tree.head[node];
+            tree.head[node] = -1;
+            tree.bodyCount[node] = 0;
+            const child = first + octantOf(tree, node, positions[resident * 3], positions[resident * 3 + 1], positions[resident * 3 + 2]);
+            tree.nextBody[resident] = -1;
+            tree.head[child] = resident;
+            tree.bodyCount[child] = 1;
+        }
+    }
+
+    // Children are always allocated after their parent, so a reverse sweep is a post-order walk
+    for (let node = tree.nodeCount - 1; node >= 0; node--) {
+        let m = 0, mx = 0, my = 0, mz = 0;
+        const first = tree.firstChild[node];
+        if (first >= 0) {
+            for (let c = first; c < first + 8; c++) {
+                const cm = tree.mass[c];
+                if (cm === 0) continue;
+                m += cm;
+                mx += tree.comX[c] * cm;
+                my += tree.comY[c] * cm;
+                mz += tree.comZ[c] * cm;
+            }
+        } else {
+            for (let b = tree.head[node]; b >= 0; b = tree.nextBody[b]) {
+                const bm = masses[b];
+                m += bm;
+                mx += positions[b * 3] * bm;
+                my += positions[b * 3 + 1] * bm;
+                mz += positions[b * 3 + 2] * bm;
+            }
+        }
+        tree.mass[node] = m;
+        if (m > 0) {
+            tree.comX[node] = mx / m;
+            tree.comY[node] = my / m;
+            tree.comZ[node] = mz / m;
+        }
+    }
+
+    return tree;
+};
+
+let traversalStack = new Int32Array(256);
+
+/**
+ * Barnes–Hut approximation of the gravitational acceleration on every
+ * unlocked body, written into `out` (length count * 3). A node is treated
+ * as a point mass when its width / distance falls below `theta`; theta = 0
+ * degenerates to exact direct summation. Softened like direct summation.
+ */
+export const computeBarnesHutAccelerations = (arrays: BodyArrays, theta: number, out: Float64Array, settings: GravitySettings = DEFAULT_PHYSICS_SETTINGS): void => {
+    const { count, positions, locked } = arrays;
+    const { G } = settings;
+    const softeningSq = settings.softening * settings.softening;
+    out.fill(0);
+    if (count === 0) return;
+
+    const tree = buildOctree(arrays, settings);
+    const thetaSq = theta * theta;
+
+    for (let i = 0; i < count; i++) {
+        if (locked[i]) continue;
+        const px = positions[i * 3], py = positions[i * 3 + 1], pz = positions[i * 3 + 2];
+        let ax = 0, ay = 0, az = 0;
+
+        let top = 0;
+        traversalStack[top++] = 0;
+        while (top > 0) {
+            const node = traversalStack[--top];
+            const nodeMass = tree.mass[node];
+            if (nodeMass === 0) continue;
+
+            const first = tree.firstChild[node];
+            if (first < 0) {
+                for (let j = tree.head[node]; j >= 0; j = tree.nextBody[j]) {
+                    if (j === i) continue;
+                    const dx = positions[j * 3] - px;
+                    const dy = positions[j * 3 + 1] - py;
+                    const dz = positions[j * 3 + 2] - pz;
+                    const softDistSq = dx*dx + dy*dy + dz*dz + softeningSq;
+                    if (softDistSq === 0) continue;
+                    const f = (G * arrays.masses[j]) / (softDistSq * Math.sqrt(softDistSq));
+                    ax += f * dx;
+                    ay += f * dy;
+                    az += f * dz;
+                }
+                continue;
+            }
+
+            const dx = tree.comX[node] - px;
+            const dy = tree.comY[node] - py;
+            const dz = tree.comZ[node] - pz;
+            const distSq = dx*dx + dy*dy + dz*dz;
+            const width = tree.halfSize[node] * 2;
+
+            if (width * width < thetaSq * distSq) {
+                const softDistSq = distSq + softeningSq;
+                const f = (G * nodeMass) / (softDistSq * Math.sqrt(softDistSq));
+                ax += f * dx;
+                ay += f * dy;
+                az += f * dz;
+                continue;
+            }
+
+            if (top + 8 > traversalStack.length) {
+                const grown = new Int32Array(traversalStack.length * 2);
+                grown.set(traversalStack);
+                traversalStack = grown;
+            }
+            for (let c = first; c < first + 8; c++) traversalStack[top++] = c;
+        }
+
+        out[i * 3] = ax;
+        out[i * 3 + 1] = ay;
+        out[i * 3 + 2] = az;
+    }
+};
+
+export interface SolverComparison {
+    /** Largest |a_bh - a_exact| / |a_exact| over all unlocked bodies. */
+    maxRelativeError: number;
+    /** Mean of the same ratio. */
+    meanRelativeError: number;
+    directMs: number;
+    barnesHutMs: number;
+}
+
+/**
+ * Runs both solvers on the same state and reports how far the Barnes–Hut
+ * accelerations are from exact direct summation, plus the time each took.
+ */
+export const compareWithDirectSummation = (arrays: BodyArrays, theta: number, settings: GravitySettings = DEFAULT_PHYSICS_SETTINGS): SolverComparison => {
+    const exact = new Float64Array(arrays.count * 3);
+    const approx = new Float64Array(arrays.count * 3);
+
+    let start = performance.now();
+    computeDirectAccelerations(arrays, exact, settings);
+    const directMs = performance.now() - start;
+
+    start = performance.now();
+    computeBarnesHutAccelerations(arrays, theta, approx, settings);
+    const barnesHutMs = performance.now() - start;
+
+    let maxRelativeError = 0;
+    let sum = 0;
+    let samples = 0;
+    for (let i = 0; i < arrays.count; i++) {
+        if (arrays.locked[i]) continue;
+        const ex = exact[i * 3], ey = exact[i * 3 + 1], ez = exact[i * 3 + 2];
+        const magnitude = Math.sqrt(ex*ex + ey*ey + ez*ez);
+        if (magnitude === 0) continue;
+        const error = Math.hypot(approx[i * 3] - ex, approx[i * 3 + 1] - ey, approx[i * 3 + 2] - ez) / magnitude;
+        maxRelativeError = Math.max(maxRelativeError, error);
+        sum += error;
+        samples++;
+    }
+
+    return {
+        maxRelativeError,
+        meanRelativeError: samples > 0 ? sum / samples : 0,
+        directMs,
+        barnesHutMs
+    };
+};
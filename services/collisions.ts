@@ -0,0 +1,245 @@
+import { BodyType, CelestialBody, PhysicsSettings, SimulationEvent, Vector3 } from '../types';
+import { BodyArrays } from './gravity';
+import { UNIT_SYSTEMS } from '../constants';
+
+const FRAGMENT_COUNT = 5;
+const FRAGMENT_SPREAD = 0.3; // Ejection speed of fragments as a fraction of the impact speed
+
+export interface CollisionPair {
+    a: number;
+    b: number;
+}
+
+export interface CollisionResult {
+    /** Ids of bodies that no longer exist. */
+    removed: string[];
+    /** New bodies created by the impact (fragments). */
+    added: CelestialBody[];
+    event: SimulationEvent;
+    /** Body that takes over the orbits around the removed ones. */
+    heir?: string;
+}
+
+/**
+ * Finds overlapping pairs (distance < sum of radii) that involve at least one
+ * unlocked body. Bodies on rails never collide with each other. Each body is
+ * reported in at most one pair per call, closest contact first per body.
+ */
+export const findCollisions = (arrays: BodyArrays): CollisionPair[] => {
+    const { count, positions, radii, locked } = arrays;
+    const pairs: CollisionPair[] = [];
+    const involved = new Uint8Array(count);
+
+    for (let i = 0; i < count; i++) {
+        if (locked[i] || involved[i]) continue;
+        const px = positions[i * 3], py = positions[i * 3 + 1], pz = positions[i * 3 + 2];
+
+        let hit = -1;
+        let hitDepth = 0;
+        for (let j = 0; j < count; j++) {
+            if (j === i || involved[j]) continue;
+            // Free-free pairs are found from the lower index only
+            if (!locked[j] && j < i) continue;
+            // Barycenters are points with nothing to hit
+            if (radii[j] === 0) continue;
+            const dx = positions[j * 3] - px;
+            const dy = positions[j * 3 + 1] - py;
+            const dz = positions[j * 3 + 2] - pz;
+            const reach = radii[i] + radii[j];
+            const distSq = dx*dx + dy*dy + dz*dz;
+            if (distSq >= reach * reach) continue;
+            const depth = reach - Math.sqrt(distSq);
+            if (depth > hitDepth) {
+                hit = j;
+                hitDepth = depth;
+            }
+        }
+
+        if (hit >= 0) {
+            involved[i] = 1;
+            involved[hit] = 1;
+            pairs.push({ a: i, b: hit });
+        }
+    }
+    return pairs;
+};
+
+// --- Vector helpers ---
+
+const sub = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const add = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const scale = (a: Vector3, s: number): Vector3 => ({ x: a.x * s, y: a.y * s, z: a.z * s });
+const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const length = (a: Vector3) => Math.sqrt(dot(a, a));
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+});
+const normalize = (a: Vector3): Vector3 => {
+    const l = length(a);
+    return l > 0 ? scale(a, 1 / l) : { x: 1, y: 0, z: 0 };
+};
+
+/**
+ * A locked body takes part in the impact as a normal mass only if it may
+ * leave its rails; otherwise it acts as an immovable object.
+ */
+const isMovable = (body: CelestialBody, settings: PhysicsSettings) => !body.isLocked || settings.unlockOnImpact;
+
+const inverseMass = (body: CelestialBody, settings: PhysicsSettings) =>
+    isMovable(body, settings) && body.mass > 0 ? 1 / body.mass : 0;
+
+/** Takes a locked body off its rails; its current velocity (from the rails) is kept. */
+const releaseFromRails = (body: CelestialBody) => {
+    if (!body.isLocked) return;
+    body.isLocked = false;
+    body.orbitalElements = undefined;
+};
+
+/**
+ * Resolves the normal component of the impact with the given restitution and
+ * pushes the bodies apart so they no longer overlap. Mutates both bodies and
+ * returns the approach speed along the normal.
+ */
+const applyBounce = (a: CelestialBody, b: CelestialBody, settings: PhysicsSettings): number => {
+    const wa = inverseMass(a, settings);
+    const wb = inverseMass(b, settings);
+    const normal = normalize(sub(b.position, a.position));
+    const approach = dot(sub(b.velocity, a.velocity), normal);
+
+    if (wa + wb === 0) return 0;
+
+    if (approach < 0) {
+        const impulse = -(1 + settings.restitution) * approach / (wa + wb);
+        a.velocity = sub(a.velocity, scale(normal, impulse * wa));
+        b.velocity = add(b.velocity, scale(normal, impulse * wb));
+    }
+
+    const overlap = a.radius + b.radius - length(sub(b.position, a.position));
+    if (overlap > 0) {
+        a.position = sub(a.position, scale(normal, overlap * wa / (wa + wb)));
+        b.position = add(b.position, scale(normal, overlap * wb / (wa + wb)));
+    }
+    return Math.abs(approach);
+};
+
+const mergeBodies = (a: CelestialBody, b: CelestialBody, settings: PhysicsSettings): { survivor: CelestialBody, absorbed: CelestialBody } => {
+    // An immovable body always survives; otherwise the heavier one keeps its identity
+    const aFixed = !isMovable(a, settings);
+    const bFixed = !isMovable(b, settings);
+    const [survivor, absorbed] = aFixed || (!bFixed && a.mass >= b.mass) ? [a, b] : [b, a];
+    const mass = a.mass + b.mass;
+
+    if (isMovable(survivor, settings) && mass > 0) {
+        // Perfectly inelastic: conserve momentum, merge at the centre of mass
+        survivor.velocity = scale(add(scale(a.velocity, a.mass), scale(b.velocity, b.mass)), 1 / mass);
+        survivor.position = scale(add(scale(a.position, a.mass), scale(b.position, b.mass)), 1 / mass);
+    }
+    survivor.mass = mass;
+    survivor.radius = Math.cbrt(Math.pow(a.radius, 3) + Math.pow(b.radius, 3));
+
+    return { survivor, absorbed };
+};
+
+/**
+ * Breaks `projectile` into a ring of fragments in the plane perpendicular to
+ * the impact normal. The ring's ejection velocities cancel out, so the
+ * fragments carry exactly the projectile's post-bounce momentum.
+ */
+const shatter = (projectile: CelestialBody, other: CelestialBody, impactSpeed: number, settings: PhysicsSettings, fragmentId: (index: number) => string, random: () => number): CelestialBody[] => {
+    const fragmentMass = projectile.mass / FRAGMENT_COUNT;
+    const fragmentRadius = projectile.radius / Math.cbrt(FRAGMENT_COUNT);
+    const { minFragment } = UNIT_SYSTEMS[settings.units];
+    if (fragmentMass < minFragment.mass || fragmentRadius < minFragment.radius) return [];
+
+    const normal = normalize(sub(projectile.position, other.position));
+    const helper = Math.abs(normal.y) < 0.9 ? { x: 0, y: 1, z: 0 } : { x: 1, y: 0, z: 0 };
+    const t1 = normalize(cross(normal, helper));
+    const t2 = cross(normal, t1);
+
+    // Keep neighbouring fragments from overlapping each other at birth
+    const ringRadius = 1.05 * fragmentRadius / Math.sin(Math.PI / FRAGMENT_COUNT);
+    const spreadSpeed = FRAGMENT_SPREAD * impactSpeed;
+    const phase = random() * Math.PI * 2;
+
+    return Array.from({ length: FRAGMENT_COUNT }, (_, k) => {
+        const angle = phase + (k / FRAGMENT_COUNT) * Math.PI * 2;
+        const dir = add(scale(t1, Math.cos(angle)), scale(t2, Math.sin(angle)));
+        return {
+            id: fragmentId(k),
+            name: `${projectile.name} Fragment ${k + 1}`,
+            type: BodyType.ASTEROID,
+            mass: fragmentMass,
+            radius: fragmentRadius,
+            color: projectile.color,
+            position: add(projectile.position, scale(dir, ringRadius)),
+            velocity: add(projectile.velocity, scale(dir, spreadSpeed)),
+            isLocked: false,
+            description: `A fragment of ${projectile.name}, broken off in a collision.`
+        };
+    });
+};
+
+/**
+ * Applies the configured collision outcome to two overlapping bodies. Both
+ * records must carry their current position and velocity (including rails
+ * velocity for locked bodies); they are mutated in place. Anything left to
+ * chance draws from `random`, so impacts replay identically.
+ */
+export const resolveCollision = (
+    a: CelestialBody,
+    b: CelestialBody,
+    settings: PhysicsSettings,
+    time: number,
+    eventId: string,
+    random: () => number
+): CollisionResult => {
+    const impactPoint = scale(add(scale(a.position, b.radius), scale(b.position, a.radius)), 1 / (a.radius + b.radius));
+    const event = (message: string): SimulationEvent => ({
+        id: eventId,
+        type: 'collision',
+        time,
+        bodyIds: [a.id, b.id],
+        message,
+        position: impactPoint
+    });
+
+    const wasLocked = [a, b].filter(body => body.isLocked && isMovable(body, settings));
+    const released = wasLocked.length > 0 ? ` ${wasLocked.map(body => body.name).join(' and ')} was knocked off its rails.` : '';
+    wasLocked.forEach(releaseFromRails);
+
+    if (settings.collisionMode === 'merge') {
+        const { survivor, absorbed } = mergeBodies(a, b, settings);
+        return {
+            removed: [absorbed.id],
+            added: [],
+            event: event(`${absorbed.name} merged into ${survivor.name}.${released}`),
+            heir: survivor.id
+        };
+    }
+
+    const impactSpeed = applyBounce(a, b, settings);
+
+    if (settings.collisionMode === 'fragment') {
+        // The lighter movable body breaks up; an immovable one can't be the projectile
+        const candidates = [a, b].filter(body => isMovable(body, settings));
+        const projectile = candidates.reduce((lightest, body) => body.mass < lightest.mass ? body : lightest);
+        const other = projectile === a ? b : a;
+        const fragments = shatter(projectile, other, impactSpeed, settings, k => `${projectile.id}-${eventId}-${k}`, random);
+        if (fragments.length > 0) {
+            return {
+                removed: [projectile.id],
+                added: fragments,
+                event: event(`${projectile.name} shattered into ${fragments.length} fragments against ${other.name}.${released}`),
+                heir: other.id
+            };
+        }
+    }
+
+    return {
+        removed: [],
+        added: [],
+        event: event(`${a.name} bounced off ${b.name} at ${impactSpeed.toPrecision(3)} ${UNIT_SYSTEMS[settings.units].labels.speed}.${released}`)
+    };
+};
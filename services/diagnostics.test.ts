@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { BodyType, CelestialBody } from '../types';
+import { measureDrift } from './diagnostics';
+import { createSimulationEngine } from './simulationEngine';
+
+const G = 0.5;
+const MASS = 50;
+const SEPARATION = 10;
+
+// Two equal free stars circling their common centre of mass
+const speed = 0.5 * Math.sqrt(G * 2 * MASS / SEPARATION);
+const star = (id: string, side: number): CelestialBody => ({
+    id,
+    name: id,
+    type: BodyType.STAR,
+    mass: MASS,
+    radius: 0.5,
+    color: '#ffffff',
+    position: { x: side * SEPARATION / 2, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: -side * speed }
+});
+
+const period = 2 * Math.PI * Math.sqrt(SEPARATION ** 3 / (G * 2 * MASS));
+
+describe('conservation diagnostics', () => {
+    it('keeps the energy drift of a free binary bounded under Verlet', () => {
+        const engine = createSimulationEngine([star('a', 1), star('b', -1)], { G, softening: 0, integrator: 'verlet', timeStep: period / 200 });
+        const baseline = engine.getDiagnostics();
+        expect(baseline.freeBodies).toBe(2);
+        expect(baseline.external).toBe('none');
+
+        let worst = 0;
+        for (let orbit = 0; orbit < 50; orbit++) {
+            engine.step(period);
+            worst = Math.max(worst, measureDrift(baseline, engine.getDiagnostics()).energy);
+        }
+        expect(worst).toBeLessThan(1e-3);
+
+        const drift = measureDrift(baseline, engine.getDiagnostics());
+        expect(drift.momentum).toBeLessThan(1e-9);
+        expect(drift.angularMomentum).toBeLessThan(1e-6);
+    });
+});
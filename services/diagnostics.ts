@@ -0,0 +1,129 @@
+import { Vector3 } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS } from '../constants';
+import { attracts, BodyArrays, GravitySettings } from './gravity';
+
+// --- Conservation Diagnostics ---
+// Totals over the free (integrated) bodies that an exact integration would
+// keep constant, so their drift shows how far the integrator has wandered.
+// Bodies on rails are not part of the subsystem: they pull on the free bodies
+// like an external field, and whether that field leaves anything conserved
+// depends on whether the rails bodies move.
+
+/**
+ * What the free bodies feel from outside the subsystem: nothing, only fixed
+ * rails bodies (energy is still conserved), or moving ones (nothing is).
+ */
+export type ExternalField = 'none' | 'static' | 'moving';
+
+export interface ConservedQuantities {
+    time: number;
+    freeBodies: number;
+    external: ExternalField;
+    kinetic: number;
+    /** Between pairs of free bodies, plus that of each free body in the field of the rails bodies. */
+    potential: number;
+    energy: number;
+    momentum: Vector3;
+    /** About the origin. */
+    angularMomentum: Vector3;
+    /** Sums of |m v| and |r x m v| over the bodies, which the vector drifts are measured against. */
+    momentumScale: number;
+    angularMomentumScale: number;
+}
+
+/** Relative change of each quantity since a baseline; 0 is perfect conservation. */
+export interface ConservationDrift {
+    energy: number;
+    momentum: number;
+    angularMomentum: number;
+}
+
+export type ConservedQuantity = keyof ConservationDrift;
+
+/**
+ * Computes the conserved quantities of the free bodies in `arrays`, with
+ * every rails body already placed at `time`. The potential is softened and
+ * counts only the pairs that attract, matching the gravity solvers.
+ */
+export const computeConservedQuantities = (arrays: BodyArrays, time: number, settings: GravitySettings = DEFAULT_PHYSICS_SETTINGS): ConservedQuantities => {
+    const { count, positions, velocities, masses, locked, elements } = arrays;
+    const { G } = settings;
+    const softeningSq = settings.softening * settings.softening;
+
+    let freeBodies = 0;
+    let external: ExternalField = 'none';
+    for (let i = 0; i < count; i++) {
+        if (!locked[i]) freeBodies++;
+        else if (!attracts(arrays, i, settings)) continue;
+        else if (elements[i]) external = 'moving';
+        else if (external === 'none') external = 'static';
+    }
+
+    let kinetic = 0, potential = 0;
+    let px = 0, py = 0, pz = 0;
+    let lx = 0, ly = 0, lz = 0;
+    let momentumScale = 0, angularMomentumScale = 0;
+
+    for (let i = 0; i < count; i++) {
+        if (locked[i]) continue;
+        const m = masses[i];
+        const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+        const vx = velocities[i * 3], vy = velocities[i * 3 + 1], vz = velocities[i * 3 + 2];
+
+        kinetic += 0.5 * m * (vx*vx + vy*vy + vz*vz);
+        px += m * vx;
+        py += m * vy;
+        pz += m * vz;
+        momentumScale += m * Math.sqrt(vx*vx + vy*vy + vz*vz);
+
+        // L = r x m v
+        const hx = m * (y * vz - z * vy), hy = m * (z * vx - x * vz), hz = m * (x * vy - y * vx);
+        lx += hx;
+        ly += hy;
+        lz += hz;
+        angularMomentumScale += Math.sqrt(hx*hx + hy*hy + hz*hz);
+
+        // Each free pair once (from the lower index), every rails body in full
+        for (let j = 0; j < count; j++) {
+            if (j === i || (!locked[j] && j < i) || !attracts(arrays, j, settings)) continue;
+            const dx = positions[j * 3] - x, dy = positions[j * 3 + 1] - y, dz = positions[j * 3 + 2] - z;
+            const softDistSq = dx*dx + dy*dy + dz*dz + softeningSq;
+            if (softDistSq === 0) continue;
+            potential -= G * m * masses[j] / Math.sqrt(softDistSq);
+        }
+    }
+
+    return {
+        time,
+        freeBodies,
+        external,
+        kinetic,
+        potential,
+        energy: kinetic + potential,
+        momentum: { x: px, y: py, z: pz },
+        angularMomentum: { x: lx, y: ly, z: lz },
+        momentumScale,
+        angularMomentumScale
+    };
+};
+
+/**
+ * Drift of `current` from `baseline`, each change relative to the magnitudes
+ * in play rather than to the total: energy to kinetic plus |potential| at the
+ * baseline, the vectors to the larger of the two sums of magnitudes. Totals
+ * can be zero, as for momentum in a centre-of-mass frame or the energy of a
+ * body on an escape orbit, and would make any change look infinite.
+ */
+export const measureDrift = (baseline: ConservedQuantities, current: ConservedQuantities): ConservationDrift => {
+    const relative = (change: number, scale: number) => scale > 0 ? change / scale : 0;
+    const vectorChange = (a: Vector3, b: Vector3) => Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+    return {
+        energy: relative(Math.abs(current.energy - baseline.energy), baseline.kinetic - baseline.potential),
+        momentum: relative(vectorChange(baseline.momentum, current.momentum), Math.max(baseline.momentumScale, current.momentumScale)),
+        angularMomentum: relative(vectorChange(baseline.angularMomentum, current.angularMomentum), Math.max(baseline.angularMomentumScale, current.angularMomentumScale))
+    };
+};
+
+/** Which quantities the free bodies should keep, given what pulls on them from outside. */
+export const isConserved = (quantity: ConservedQuantity, external: ExternalField): boolean =>
+    external === 'none' || (external === 'static' && quantity === 'energy');
@@ -0,0 +1,213 @@
+import { CelestialBody } from '../types';
+import { SimulationClient } from './simulationClient';
+
+// --- Undo / Redo ---
+// Every user edit to the scene is wrapped in a command that knows how to
+// apply and revert itself against the simulation. Reverting only touches the
+// bodies the command is about, so the rest of the simulation keeps running.
+
+export interface EditCommand {
+    label: string;
+    apply: () => void;
+    revert: () => void;
+}
+
+export interface EditHistory {
+    /** Applies the command and records it, discarding anything that could have been redone. */
+    execute: (command: EditCommand) => void;
+    undo: () => void;
+    redo: () => void;
+    /** Undoes or redoes until `position` commands are applied. */
+    goTo: (position: number) => void;
+    clear: () => void;
+    /** Labels of every recorded command, oldest first, and how many of them are applied. */
+    getEntries: () => { labels: string[], position: number };
+    subscribe: (listener: () => void) => () => void;
+}
+
+const MAX_HISTORY = 100;
+
+export const createEditHistory = (): EditHistory => {
+    let commands: EditCommand[] = [];
+    let position = 0;
+    let entries = { labels: [] as string[], position: 0 };
+    const listeners = new Set<() => void>();
+
+    const emit = () => {
+        entries = { labels: commands.map(c => c.label), position };
+        listeners.forEach(listener => listener());
+    };
+
+    const undo = () => {
+        if (position === 0) return;
+        commands[--position].revert();
+        emit();
+    };
+
+    const redo = () => {
+        if (position === commands.length) return;
+        commands[position++].apply();
+        emit();
+    };
+
+    return {
+        execute: (command) => {
+            command.apply();
+            commands = commands.slice(0, position).concat(command).slice(-MAX_HISTORY);
+            position = commands.length;
+            emit();
+        },
+        undo,
+        redo,
+        goTo: (target) => {
+            while (position > target && position > 0) commands[--position].revert();
+            while (position < target && position < commands.length) commands[position++].apply();
+            emit();
+        },
+        clear: () => {
+            commands = [];
+            position = 0;
+            emit();
+        },
+        getEntries: () => entries,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        }
+    };
+};
+
+// --- Commands ---
+
+/** Latest state of a body including its live position and velocity, or `fallback` if the worker hasn't reported it yet. */
+const captureBody = (simulation: SimulationClient, fallback: CelestialBody): CelestialBody =>
+    simulation.getState().bodies.find(b => b.id === fallback.id) ?? fallback;
+
+/** Whether the body was destroyed in an impact, as opposed to not yet reported by the worker. */
+const wasDestroyed = (simulation: SimulationClient, id: string): boolean =>
+    !simulation.getBodies().some(b => b.id === id) &&
+    simulation.getEvents().some(e => e.type === 'collision' && e.bodyIds.includes(id));
+
+/**
+ * Adds a body. A `pendingName` that is still being worked out (e.g. asked of
+ * the AI) replaces the placeholder name when it arrives, as part of this
+ * command, so undo and redo bring the body back under it.
+ */
+export const spawnCommand = (simulation: SimulationClient, body: CelestialBody, pendingName?: Promise<string>): EditCommand => {
+    let snapshot = body;
+    let name = body.name;
+    let destroyed = false;
+    let applied = false;
+    pendingName?.then(next => {
+        if (!next.trim()) return;
+        name = next.trim();
+        if (applied) simulation.updateBody(body.id, { name });
+    });
+    return {
+        label: `Spawn ${body.name}`,
+        apply: () => {
+            applied = true;
+            // A body that merged or shattered before the undo lives on in the others; putting it back would count its mass twice
+            if (!destroyed) simulation.addBody({ ...snapshot, name });
+        },
+        revert: () => {
+            applied = false;
+            destroyed = wasDestroyed(simulation, body.id);
+            // Keep the state it had when it was undone, so a redo puts it back where it was
+            snapshot = captureBody(simulation, snapshot);
+            simulation.removeBody(body.id);
+        }
+    };
+};
+
+/** Adds a batch of bodies (e.g. from an element file) in one go, and takes them all out again on undo. */
+export const importCommand = (simulation: SimulationClient, bodies: CelestialBody[], label: string): EditCommand => {
+    const ids = bodies.map(b => b.id);
+    return {
+        label,
+        apply: () => simulation.addBodies(bodies),
+        revert: () => simulation.removeBodies(ids)
+    };
+};
+
+export const deleteCommand = (simulation: SimulationClient, body: CelestialBody): EditCommand => {
+    let snapshot = body;
+    // The engine hands the body's children to its parent; undoing puts them back on their old orbits around it
+    let children: CelestialBody[] = [];
+    return {
+        label: `Delete ${body.name}`,
+        apply: () => {
+            snapshot = captureBody(simulation, snapshot);
+            children = simulation.getBodies().filter(b => b.parentId === body.id);
+            simulation.removeBody(body.id);
+        },
+        revert: () => {
+            simulation.addBody(snapshot);
+            children.forEach(child => simulation.updateBody(child.id, {
+                parentId: body.id,
+                isLocked: child.isLocked,
+                orbitalElements: child.orbitalElements
+            }));
+        }
+    };
+};
+
+/** Any patch of plain body properties (name, mass, texture, ...). */
+export const editBodyCommand = (simulation: SimulationClient, body: CelestialBody, patch: Partial<CelestialBody>, label: string): EditCommand => {
+    const previous = Object.fromEntries(
+        Object.keys(patch).map(key => [key, body[key as keyof CelestialBody]])
+    ) as Partial<CelestialBody>;
+    return {
+        label,
+        apply: () => simulation.updateBody(body.id, patch),
+        revert: () => simulation.updateBody(body.id, previous)
+    };
+};
+
+/**
+ * An edit that moves a body to another parent without moving the body. Any
+ * other fields in `patch` are applied first; rails are then refitted around
+ * the new parent by the engine.
+ */
+export const reparentCommand = (simulation: SimulationClient, body: CelestialBody, patch: Partial<CelestialBody>, label: string): EditCommand => {
+    const { parentId, ...rest } = patch;
+    const previous = Object.fromEntries(
+        Object.keys(rest).map(key => [key, body[key as keyof CelestialBody]])
+    ) as Partial<CelestialBody>;
+    return {
+        label,
+        apply: () => {
+            if (Object.keys(rest).length > 0) simulation.updateBody(body.id, rest);
+            simulation.reparentBody(body.id, parentId);
+        },
+        // Back onto the very same orbit around the old parent, at wherever the rails place it now
+        revert: () => simulation.updateBody(body.id, { ...previous, parentId: body.parentId, orbitalElements: body.orbitalElements })
+    };
+};
+
+export const releaseCommand = (simulation: SimulationClient, body: CelestialBody): EditCommand => ({
+    label: `Release ${body.name} from rails`,
+    apply: () => simulation.releaseBody(body.id),
+    // Back onto the very same orbit, at wherever the rails place it now
+    revert: () => simulation.updateBody(body.id, {
+        isLocked: true,
+        orbitalElements: body.orbitalElements,
+        parentId: body.parentId
+    })
+});
+
+export const lockCommand = (simulation: SimulationClient, body: CelestialBody, parentId: string, parentName: string): EditCommand => ({
+    label: `Put ${body.name} on rails around ${parentName}`,
+    apply: () => simulation.lockBody(body.id, parentId),
+    // Continue as a free body from its current point on the fitted orbit
+    revert: () => {
+        const current = captureBody(simulation, body);
+        simulation.updateBody(body.id, {
+            isLocked: false,
+            orbitalElements: undefined,
+            parentId: body.parentId,
+            position: current.position,
+            velocity: current.velocity
+        });
+    }
+});
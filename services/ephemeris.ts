@@ -0,0 +1,65 @@
+import { CelestialBody, OrbitalElements } from '../types';
+import { AU_KM, EPHEMERIS, EphemerisElements } from './ephemerisData';
+
+// --- Real Ephemeris ---
+// Turns the bundled J2000 elements into bodies on Kepler rails, measured in
+// AU, days and solar masses (the 'astronomical' unit system). Simulation time
+// is days since J2000.0, so any calendar date maps to a time the rails can be
+// propagated to directly; each element drifts at its secular rate on the way.
+
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const DAY_MS = 86400000;
+const DAYS_PER_CENTURY = 36525;
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+/** Simulation time (days since J2000.0) of a calendar date. Ignores the ~1 minute between UTC and TT. */
+export const dateToTime = (date: Date): number => (date.getTime() - J2000_MS) / DAY_MS;
+
+/** Calendar date at a simulation time in days since J2000.0. */
+export const timeToDate = (time: number): Date => new Date(J2000_MS + time * DAY_MS);
+
+/**
+ * Converts a table row into rails elements at t=0 (J2000) plus their drift
+ * per day. ω and M come from the longitudes: ω = ϖ - Ω and M = L - ϖ.
+ */
+const toOrbitalElements = ({ a, e, i, L, varpi, node }: EphemerisElements): OrbitalElements => {
+    const perDay = (perCentury: number) => perCentury / DAYS_PER_CENTURY;
+    return {
+        semiMajorAxis: a[0],
+        eccentricity: e[0],
+        inclination: toRadians(i[0]),
+        ascendingNode: toRadians(node[0]),
+        periapsis: toRadians(varpi[0] - node[0]),
+        meanAnomalyEpoch: toRadians(L[0] - varpi[0]),
+        rates: {
+            semiMajorAxis: perDay(a[1]),
+            eccentricity: perDay(e[1]),
+            inclination: toRadians(perDay(i[1])),
+            ascendingNode: toRadians(perDay(node[1])),
+            periapsis: toRadians(perDay(varpi[1] - node[1])),
+            meanMotion: toRadians(perDay(L[1] - varpi[1]))
+        }
+    };
+};
+
+/**
+ * The Sun, planets, Pluto and major moons from the bundled ephemeris, parents
+ * ahead of their children. Radii are true sizes in AU; the scene enlarges
+ * them when drawing.
+ */
+export const createEphemerisBodies = (): CelestialBody[] =>
+    EPHEMERIS.map(entry => ({
+        id: entry.id,
+        name: entry.name,
+        type: entry.type,
+        mass: entry.mass,
+        radius: entry.radiusKm / AU_KM,
+        color: entry.color,
+        position: { x: 0, y: 0, z: 0 },
+        velocity: { x: 0, y: 0, z: 0 },
+        orbitalElements: entry.elements && toOrbitalElements(entry.elements),
+        isLocked: true,
+        parentId: entry.parentId,
+        description: entry.description
+    }));
@@ -0,0 +1,293 @@
+import { BodyType } from '../types';
+
+// --- Bundled Ephemeris Data ---
+// Mean orbital elements at J2000.0 (2000-01-01 12:00 TT) with their rates of
+// change per Julian century, in the style of JPL's "Keplerian Elements for
+// Approximate Positions of the Major Planets" (Standish, valid 1800–2050).
+// Angles are in degrees and distances in AU, referred to the ecliptic and
+// equinox of J2000. Each pair is [value at J2000, change per century].
+//
+// The planet rows are JPL's; "Earth" is really the Earth–Moon barycenter.
+// The moon rows are rougher: mean elements from published mean motions, the
+// Galilean moons and Titan placed in their parent's equatorial plane. Expect
+// their phases to be off by a few degrees, Titan's by more.
+
+export const AU_KM = 149597870.7;
+
+export type ElementRow = [value: number, perCentury: number];
+
+export interface EphemerisElements {
+    a: ElementRow; // Semi-major axis (AU)
+    e: ElementRow; // Eccentricity
+    i: ElementRow; // Inclination (°)
+    L: ElementRow; // Mean longitude (°)
+    varpi: ElementRow; // Longitude of periapsis ϖ = Ω + ω (°)
+    node: ElementRow; // Longitude of the ascending node Ω (°)
+}
+
+export interface EphemerisEntry {
+    id: string;
+    name: string;
+    type: BodyType;
+    parentId?: string;
+    mass: number; // Solar masses
+    radiusKm: number;
+    color: string;
+    description: string;
+    elements?: EphemerisElements;
+}
+
+// Mean longitude and its rate for a moon whose motion is given per day
+const daily = (atEpoch: number, perDay: number): ElementRow => [atEpoch, perDay * 36525];
+const km = (value: number): ElementRow => [value / AU_KM, 0];
+
+// Planes of the parents' equators, which the moons are taken to orbit in
+const JUPITER_EQUATOR = { i: [2.22, 0] as ElementRow, node: [337.8, 0] as ElementRow };
+const SATURN_RINGS = { i: [28.06, 0] as ElementRow, node: [169.51, 0] as ElementRow };
+
+export const EPHEMERIS: EphemerisEntry[] = [
+    {
+        id: 'sun',
+        name: 'Sun',
+        type: BodyType.STAR,
+        mass: 1,
+        radiusKm: 695700,
+        color: '#FDB813',
+        description: 'The star at the center of our Solar System, held fixed at the origin.'
+    },
+    {
+        id: 'mercury',
+        name: 'Mercury',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 1.6601e-7,
+        radiusKm: 2439.7,
+        color: '#A5A5A5',
+        description: 'The innermost planet, on the most eccentric planetary orbit.',
+        elements: {
+            a: [0.38709927, 0.00000037],
+            e: [0.20563593, 0.00001906],
+            i: [7.00497902, -0.00594749],
+            L: [252.25032350, 149472.67411175],
+            varpi: [77.45779628, 0.16047689],
+            node: [48.33076593, -0.12534081]
+        }
+    },
+    {
+        id: 'venus',
+        name: 'Venus',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 2.4478e-6,
+        radiusKm: 6051.8,
+        color: '#E3BB76',
+        description: 'Shrouded in clouds, on the most circular orbit of all the planets.',
+        elements: {
+            a: [0.72333566, 0.00000390],
+            e: [0.00677672, -0.00004107],
+            i: [3.39467605, -0.00078890],
+            L: [181.97909950, 58517.81538729],
+            varpi: [131.60246718, 0.00268329],
+            node: [76.67984255, -0.27769418]
+        }
+    },
+    {
+        id: 'earth',
+        name: 'Earth',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 3.0035e-6,
+        radiusKm: 6371.0,
+        color: '#22A6B3',
+        description: 'Our home. Placed at the Earth–Moon barycenter, which is what the elements describe.',
+        elements: {
+            a: [1.00000261, 0.00000562],
+            e: [0.01671123, -0.00004392],
+            i: [-0.00001531, -0.01294668],
+            L: [100.46457166, 35999.37244981],
+            varpi: [102.93768193, 0.32327364],
+            node: [0, 0]
+        }
+    },
+    {
+        id: 'mars',
+        name: 'Mars',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 3.2272e-7,
+        radiusKm: 3389.5,
+        color: '#EB4D4B',
+        description: 'The red planet, about one and a half times Earth\'s distance from the Sun.',
+        elements: {
+            a: [1.52371034, 0.00001847],
+            e: [0.09339410, 0.00007882],
+            i: [1.84969142, -0.00813131],
+            L: [-4.55343205, 19140.30268499],
+            varpi: [-23.94362959, 0.44441088],
+            node: [49.55953891, -0.29257343]
+        }
+    },
+    {
+        id: 'jupiter',
+        name: 'Jupiter',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 9.5479e-4,
+        radiusKm: 69911,
+        color: '#D35400',
+        description: 'The largest planet, with more than twice the mass of all the others combined.',
+        elements: {
+            a: [5.20288700, -0.00011607],
+            e: [0.04838624, -0.00013253],
+            i: [1.30439695, -0.00183714],
+            L: [34.39644051, 3034.74612775],
+            varpi: [14.72847983, 0.21252668],
+            node: [100.47390909, 0.20469106]
+        }
+    },
+    {
+        id: 'saturn',
+        name: 'Saturn',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 2.8589e-4,
+        radiusKm: 58232,
+        color: '#F1C40F',
+        description: 'The ringed gas giant, less dense than water.',
+        elements: {
+            a: [9.53667594, -0.00125060],
+            e: [0.05386179, -0.00050991],
+            i: [2.48599187, 0.00193609],
+            L: [49.95424423, 1222.49362201],
+            varpi: [92.59887831, -0.41897216],
+            node: [113.66242448, -0.28867794]
+        }
+    },
+    {
+        id: 'uranus',
+        name: 'Uranus',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 4.3662e-5,
+        radiusKm: 25362,
+        color: '#73C6B6',
+        description: 'An ice giant that rolls around the Sun on its side.',
+        elements: {
+            a: [19.18916464, -0.00196176],
+            e: [0.04725744, -0.00004397],
+            i: [0.77263783, -0.00242939],
+            L: [313.23810451, 428.48202785],
+            varpi: [170.95427630, 0.40805281],
+            node: [74.01692503, 0.04240589]
+        }
+    },
+    {
+        id: 'neptune',
+        name: 'Neptune',
+        type: BodyType.PLANET,
+        parentId: 'sun',
+        mass: 5.1514e-5,
+        radiusKm: 24622,
+        color: '#2E86C1',
+        description: 'The outermost planet, found by calculation before it was seen.',
+        elements: {
+            a: [30.06992276, 0.00026291],
+            e: [0.00859048, 0.00005105],
+            i: [1.77004347, 0.00035372],
+            L: [-55.12002969, 218.45945325],
+            varpi: [44.96476227, -0.32241464],
+            node: [131.78422574, -0.00508664]
+        }
+    },
+    {
+        id: 'pluto',
+        name: 'Pluto',
+        type: BodyType.DWARF_PLANET,
+        parentId: 'sun',
+        mass: 6.58e-9,
+        radiusKm: 1188.3,
+        color: '#D7BDE2',
+        description: 'A dwarf planet whose eccentric orbit crosses Neptune\'s.',
+        elements: {
+            a: [39.48211675, -0.00031596],
+            e: [0.24882730, 0.00005170],
+            i: [17.14001206, 0.00004818],
+            L: [238.92903833, 145.20780515],
+            varpi: [224.06891629, -0.04062942],
+            node: [110.30393684, -0.01183482]
+        }
+    },
+    {
+        id: 'moon',
+        name: 'Moon',
+        type: BodyType.MOON,
+        parentId: 'earth',
+        mass: 3.694e-8,
+        radiusKm: 1737.4,
+        color: '#BDC3C7',
+        description: 'Earth\'s only natural satellite. Its perigee and nodes visibly swing round over the years.',
+        elements: {
+            a: km(384400),
+            e: [0.0549, 0],
+            i: [5.145, 0],
+            L: [218.316, 481267.881],
+            varpi: [83.353, 4069.014],
+            node: [125.045, -1934.136]
+        }
+    },
+    {
+        id: 'io',
+        name: 'Io',
+        type: BodyType.MOON,
+        parentId: 'jupiter',
+        mass: 4.49e-8,
+        radiusKm: 1821.6,
+        color: '#F4D03F',
+        description: 'The most volcanically active body in the Solar System.',
+        elements: { a: km(421700), e: [0.0041, 0], L: daily(106.07719, 203.488955790), varpi: [0, 0], ...JUPITER_EQUATOR }
+    },
+    {
+        id: 'europa',
+        name: 'Europa',
+        type: BodyType.MOON,
+        parentId: 'jupiter',
+        mass: 2.41e-8,
+        radiusKm: 1560.8,
+        color: '#D6EAF8',
+        description: 'An icy moon hiding a global ocean of liquid water.',
+        elements: { a: km(671034), e: [0.009, 0], L: daily(175.73161, 101.374724735), varpi: [0, 0], ...JUPITER_EQUATOR }
+    },
+    {
+        id: 'ganymede',
+        name: 'Ganymede',
+        type: BodyType.MOON,
+        parentId: 'jupiter',
+        mass: 7.45e-8,
+        radiusKm: 2634.1,
+        color: '#A69F94',
+        description: 'The largest moon in the Solar System, bigger than Mercury.',
+        elements: { a: km(1070412), e: [0.0013, 0], L: daily(120.55883, 50.317609207), varpi: [0, 0], ...JUPITER_EQUATOR }
+    },
+    {
+        id: 'callisto',
+        name: 'Callisto',
+        type: BodyType.MOON,
+        parentId: 'jupiter',
+        mass: 5.41e-8,
+        radiusKm: 2410.3,
+        color: '#7D6E5D',
+        description: 'The most heavily cratered body known.',
+        elements: { a: km(1882709), e: [0.0074, 0], L: daily(84.44459, 21.571071177), varpi: [0, 0], ...JUPITER_EQUATOR }
+    },
+    {
+        id: 'titan',
+        name: 'Titan',
+        type: BodyType.MOON,
+        parentId: 'saturn',
+        mass: 6.76e-8,
+        radiusKm: 2574.7,
+        color: '#E59866',
+        description: 'Saturn\'s largest moon, with a thick nitrogen atmosphere.',
+        elements: { a: km(1221870), e: [0.0288, 0], L: daily(15.154, 22.57697855), varpi: [0, 0], ...SATURN_RINGS }
+    }
+];
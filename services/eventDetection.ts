@@ -0,0 +1,252 @@
+import { BodyType, CelestialBody, PhysicsSettings, SimulationEvent, Vector3 } from '../types';
+import { BodyArrays } from './gravity';
+
+// --- Event Detection ---
+// Compares the state after each integrator sub-step with the one before to
+// spot moments worth a line in the event log: close approaches, periapsis and
+// apoapsis passages and escapes of the free bodies, and conjunctions and
+// alignments of the planets as seen from what they orbit. It only sees the
+// samples, so each event is dated to the nearest one, and a pass that begins
+// and ends between two samples (at high time warp, say) goes unnoticed.
+
+/** An event as detected, before the engine numbers it. */
+export type DetectedEvent = Omit<SimulationEvent, 'id'>;
+
+export type EventSettings = Pick<PhysicsSettings, 'G' | 'approachDistance'>;
+
+// Planets at least this close in longitude count as aligned
+const ALIGNMENT_ARC = 30 * Math.PI / 180;
+// Conjunctions are only looked for while neither planet moves further than this between samples; beyond it the crossing can't be told from aliasing
+const MAX_SWEEP = Math.PI / 4;
+
+const PLANETARY = new Set<BodyType>([BodyType.PLANET, BodyType.DWARF_PLANET]);
+
+export interface EventDetector {
+    /**
+     * Returns what happened since the previous call. `arrays` must be in world
+     * coordinates with the rails bodies placed at `time`, and `bodies` the
+     * records they were packed from.
+     */
+    detect: (arrays: BodyArrays, bodies: CelestialBody[], time: number, settings: EventSettings) => DetectedEvent[];
+    /** Forgets the previous samples, e.g. after the clock jumps backwards. */
+    reset: () => void;
+}
+
+interface Approach {
+    gap: number;
+    time: number;
+    position: Vector3;
+    closing: boolean;
+}
+
+interface OrbitSample {
+    parentId: string;
+    radialSpeed: number;
+    distance: number;
+    time: number;
+    position: Vector3;
+    bound: boolean;
+}
+
+const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+const formatDistance = (d: number) => d.toPrecision(3);
+const wrapAngle = (angle: number) => angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+const listNames = (names: string[]) => names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+const readVector = (buffer: Float64Array, i: number): Vector3 => ({ x: buffer[i * 3], y: buffer[i * 3 + 1], z: buffer[i * 3 + 2] });
+
+/** Drops the entries of `map` that weren't seen in the latest sample. */
+const prune = <T>(map: Map<string, T>, seen: Set<string>) => {
+    map.forEach((_, key) => { if (!seen.has(key)) map.delete(key); });
+};
+
+export const createEventDetector = (): EventDetector => {
+    // Pairs within the approach distance, by pairKey
+    const approaches = new Map<string, Approach>();
+    // Each free body's latest state relative to its parent, by id
+    const orbits = new Map<string, OrbitSample>();
+    // Planets' longitudes around their parents, by id, and the signed separation of each pair of siblings, by pairKey
+    const longitudes = new Map<string, number>();
+    const separations = new Map<string, number>();
+    // Size of the alignment in progress around each parent, by parent id
+    const alignments = new Map<string, number>();
+
+    /** Reports each pass closer than the approach distance once, at the sample where the gap was smallest. */
+    const detectApproaches = (arrays: BodyArrays, bodies: CelestialBody[], time: number, settings: EventSettings, events: DetectedEvent[]) => {
+        const { count, positions, radii, locked, parents } = arrays;
+        const seen = new Set<string>();
+        for (let i = 0; i < count; i++) {
+            if (locked[i]) continue;
+            for (let j = 0; j < count; j++) {
+                // Each free pair once; a body and its parent are always close and get apsis passages instead
+                if (j === i || (!locked[j] && j < i) || parents[i] === j || parents[j] === i || bodies[j].type === BodyType.BARYCENTER) continue;
+                const dx = positions[j * 3] - positions[i * 3], dy = positions[j * 3 + 1] - positions[i * 3 + 1], dz = positions[j * 3 + 2] - positions[i * 3 + 2];
+                const gap = Math.sqrt(dx*dx + dy*dy + dz*dz) - radii[i] - radii[j];
+                if (gap >= settings.approachDistance) continue;
+
+                const key = pairKey(bodies[i].id, bodies[j].id);
+                seen.add(key);
+                const previous = approaches.get(key);
+                if (previous && previous.closing && gap > previous.gap) {
+                    events.push({
+                        type: 'approach',
+                        time: previous.time,
+                        bodyIds: [bodies[i].id, bodies[j].id],
+                        message: `${bodies[i].name} passed ${bodies[j].name} with ${formatDistance(Math.max(0, previous.gap))} between their surfaces.`,
+                        position: previous.position
+                    });
+                }
+                approaches.set(key, { gap, time, position: readVector(positions, i), closing: previous ? gap < previous.gap : true });
+            }
+        }
+        prune(approaches, seen);
+    };
+
+    /** Periapsis and apoapsis are where the distance to the parent stops falling or rising; escape is where the orbit stops being bound. */
+    const detectOrbitEvents = (arrays: BodyArrays, bodies: CelestialBody[], time: number, settings: EventSettings, events: DetectedEvent[]) => {
+        const { count, positions, velocities, orbitMasses, locked, parents } = arrays;
+        const seen = new Set<string>();
+        for (let i = 0; i < count; i++) {
+            const p = parents[i];
+            if (locked[i] || p < 0) continue;
+            const rx = positions[i * 3] - positions[p * 3], ry = positions[i * 3 + 1] - positions[p * 3 + 1], rz = positions[i * 3 + 2] - positions[p * 3 + 2];
+            const vx = velocities[i * 3] - velocities[p * 3], vy = velocities[i * 3 + 1] - velocities[p * 3 + 1], vz = velocities[i * 3 + 2] - velocities[p * 3 + 2];
+            const distance = Math.sqrt(rx*rx + ry*ry + rz*rz);
+            if (distance === 0) continue;
+            const radialSpeed = (rx*vx + ry*vy + rz*vz) / distance;
+            const bound = 0.5 * (vx*vx + vy*vy + vz*vz) - settings.G * orbitMasses[i] / distance < 0;
+
+            const body = bodies[i], parent = bodies[p];
+            const sample: OrbitSample = { parentId: parent.id, radialSpeed, distance, time, position: readVector(positions, i), bound };
+            seen.add(body.id);
+            const previous = orbits.get(body.id);
+            orbits.set(body.id, sample);
+            if (!previous || previous.parentId !== parent.id) continue;
+
+            const periapsis = previous.radialSpeed < 0 && radialSpeed >= 0;
+            if (periapsis || (previous.radialSpeed > 0 && radialSpeed <= 0)) {
+                // Whichever sample is nearer the turning point
+                const at = (previous.distance < distance) === periapsis ? previous : sample;
+                events.push({
+                    type: 'apsis',
+                    time: at.time,
+                    bodyIds: [body.id, parent.id],
+                    message: `${body.name} passed ${periapsis ? 'periapsis' : 'apoapsis'} ${formatDistance(at.distance)} from ${parent.name}.`,
+                    position: at.position
+                });
+            }
+            if (previous.bound && !bound) {
+                events.push({
+                    type: 'escape',
+                    time,
+                    bodyIds: [body.id, parent.id],
+                    message: `${body.name} reached escape velocity and is leaving ${parent.name}.`,
+                    position: sample.position
+                });
+            }
+        }
+        prune(orbits, seen);
+    };
+
+    /**
+     * Conjunctions are where two planets' longitudes around their common
+     * parent cross; alignments are where at least three, and at least half of
+     * the parent's planets, gather within ALIGNMENT_ARC of each other.
+     */
+    const detectAlignments = (arrays: BodyArrays, bodies: CelestialBody[], time: number, events: DetectedEvent[]) => {
+        const { count, positions, parents } = arrays;
+        const families = new Map<number, number[]>();
+        for (let i = 0; i < count; i++) {
+            if (parents[i] < 0 || !PLANETARY.has(bodies[i].type)) continue;
+            const siblings = families.get(parents[i]);
+            if (siblings) siblings.push(i);
+            else families.set(parents[i], [i]);
+        }
+
+        const seenBodies = new Set<string>(), seenPairs = new Set<string>(), seenParents = new Set<string>();
+        families.forEach((siblings, p) => {
+            const parent = bodies[p];
+            // Longitude in the reference (x-z) plane, as seen from the parent
+            const longitude = siblings.map(i => Math.atan2(positions[i * 3 + 2] - positions[p * 3 + 2], positions[i * 3] - positions[p * 3]));
+            const steady = siblings.map((i, k) => {
+                const previous = longitudes.get(bodies[i].id);
+                return previous !== undefined && Math.abs(wrapAngle(longitude[k] - previous)) < MAX_SWEEP;
+            });
+            siblings.forEach((i, k) => {
+                longitudes.set(bodies[i].id, longitude[k]);
+                seenBodies.add(bodies[i].id);
+            });
+
+            for (let a = 0; a < siblings.length; a++) {
+                for (let b = a + 1; b < siblings.length; b++) {
+                    const first = bodies[siblings[a]], second = bodies[siblings[b]];
+                    const key = pairKey(first.id, second.id);
+                    const separation = wrapAngle(longitude[a] - longitude[b]);
+                    const previous = separations.get(key);
+                    separations.set(key, separation);
+                    seenPairs.add(key);
+                    // A sign change through zero, not through ±180° (opposition)
+                    if (previous === undefined || !steady[a] || !steady[b] || (previous < 0) === (separation < 0) || Math.abs(separation - previous) >= Math.PI) continue;
+                    events.push({
+                        type: 'conjunction',
+                        time,
+                        bodyIds: [first.id, second.id],
+                        message: `${first.name} and ${second.name} are in conjunction as seen from ${parent.name}.`
+                    });
+                }
+            }
+
+            const required = Math.max(3, Math.ceil(siblings.length / 2));
+            if (siblings.length < required) return;
+            seenParents.add(parent.id);
+            // Largest group within the arc: slide a window round the planets in order of longitude
+            const sorted = siblings.map((_, k) => k).sort((a, b) => longitude[a] - longitude[b]);
+            let best: number[] = [];
+            for (let s = 0; s < sorted.length; s++) {
+                const group = [sorted[s]];
+                for (let n = 1; n < sorted.length; n++) {
+                    const k = sorted[(s + n) % sorted.length];
+                    if (wrapAngle(longitude[k] - longitude[sorted[s]] - Math.PI) + Math.PI > ALIGNMENT_ARC) break;
+                    group.push(k);
+                }
+                if (group.length > best.length) best = group;
+            }
+
+            const previous = alignments.get(parent.id) ?? 0;
+            if (best.length < required) {
+                alignments.set(parent.id, 0);
+                return;
+            }
+            // Reported as it forms and again if it grows, but not as planets flicker in and out at the edge
+            alignments.set(parent.id, Math.max(previous, best.length));
+            if (best.length <= previous) return;
+            const members = best.sort((a, b) => a - b).map(k => bodies[siblings[k]]);
+            events.push({
+                type: 'alignment',
+                time,
+                bodyIds: members.map(b => b.id),
+                message: `${listNames(members.map(b => b.name))} are aligned within ${Math.round(ALIGNMENT_ARC * 180 / Math.PI)}° as seen from ${parent.name}.`
+            });
+        });
+        prune(longitudes, seenBodies);
+        prune(separations, seenPairs);
+        prune(alignments, seenParents);
+    };
+
+    const detect = (arrays: BodyArrays, bodies: CelestialBody[], time: number, settings: EventSettings): DetectedEvent[] => {
+        const events: DetectedEvent[] = [];
+        detectApproaches(arrays, bodies, time, settings, events);
+        detectOrbitEvents(arrays, bodies, time, settings, events);
+        detectAlignments(arrays, bodies, time, events);
+        return events;
+    };
+
+    const reset = () => {
+        approaches.clear();
+        orbits.clear();
+        longitudes.clear();
+        separations.clear();
+        alignments.clear();
+    };
+
+    return { detect, reset };
+};
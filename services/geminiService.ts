@@ -1,4 +1,5 @@
 import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
+import { ChatMessage } from "../types";
 
 const getAI = (): GoogleGenAI => {
   const apiKey = process.env.API_KEY;
@@ -9,10 +10,15 @@ const getAI = (): GoogleGenAI => {
 };
 
 // 1. Chatbot (Gemini 3 Pro)
-export const createChatSession = (): Chat => {
+// Pass earlier messages to continue a restored conversation
+export const createChatSession = (history: ChatMessage[] = []): Chat => {
   const ai = getAI();
+  const turns = history.filter(msg => (msg.role === 'user' || msg.role === 'model') && !msg.isError);
+  // The history has to open with a user turn, so drop the greeting
+  const firstUser = turns.findIndex(msg => msg.role === 'user');
   return ai.chats.create({
     model: 'gemini-3-pro-preview',
+    history: firstUser < 0 ? [] : turns.slice(firstUser).map(msg => ({ role: msg.role, parts: [{ text: msg.content }] })),
     config: {
       systemInstruction: 'You are an advanced AI assistant for a 3D Solar System simulator. You are helpful, scientific, and concise. You can answer questions about astronomy, physics, and the specific simulation.',
     },
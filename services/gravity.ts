@@ -0,0 +1,159 @@
+import { BodyType, CelestialBody, OrbitalElements, PhysicsSettings } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS } from '../constants';
+import { computeBarnesHutAccelerations } from './barnesHut';
+
+/**
+ * Structure-of-arrays view of the bodies the integrator works on.
+ * `parents` holds the index of each body's parent, or -1, and `order` every
+ * index with each parent ahead of its children. `masses` are the masses
+ * bodies attract others with (zero for barycenters); `orbitMasses` the mass
+ * each body's rails orbit is computed around (see orbitMass).
+ */
+export interface BodyArrays {
+    count: number;
+    positions: Float64Array;
+    velocities: Float64Array;
+    masses: Float64Array;
+    orbitMasses: Float64Array;
+    locked: Uint8Array;
+    radii: Float64Array;
+    parents: Int32Array;
+    order: Int32Array;
+    elements: (OrbitalElements | undefined)[];
+}
+
+/**
+ * Mass that `body`'s rails orbit around `parent` is computed with. A star (or
+ * inner barycenter) orbiting a barycenter is one of the masses it stands for:
+ * relative to the common centre of mass it follows a Kepler orbit around
+ * (M - m)³ / M², the exact two-body result.
+ */
+export const orbitMass = (body: CelestialBody, parent: CelestialBody): number =>
+    parent.type === BodyType.BARYCENTER && (body.type === BodyType.STAR || body.type === BodyType.BARYCENTER)
+        ? Math.max(0, parent.mass - body.mass) ** 3 / parent.mass ** 2
+        : parent.mass;
+
+/** The physics settings that decide who attracts whom, and how strongly. */
+export type GravitySettings = Pick<PhysicsSettings, 'G' | 'softening' | 'railsGravity' | 'mutualGravity'>;
+
+/** Whether body j pulls on the free bodies under `settings`. */
+export const attracts = (arrays: BodyArrays, j: number, settings: GravitySettings): boolean =>
+    arrays.masses[j] > 0 && (arrays.locked[j] ? settings.railsGravity : settings.mutualGravity);
+
+/**
+ * Orders the indices so every body comes after its parent, whatever order
+ * the body list is in. A parent chain that loops back on itself is cut where
+ * the loop closes, leaving that body without a parent.
+ */
+const sortByParent = (parents: Int32Array): Int32Array => {
+    const count = parents.length;
+    const order = new Int32Array(count);
+    const state = new Uint8Array(count); // 0: not seen, 1: on the chain being walked, 2: placed
+    let placed = 0;
+
+    for (let i = 0; i < count; i++) {
+        // Walk up to the first ancestor already placed, then place the chain from the top down
+        const chain: number[] = [];
+        let j = i;
+        while (j >= 0 && state[j] === 0) {
+            state[j] = 1;
+            chain.push(j);
+            j = parents[j];
+        }
+        if (j >= 0 && state[j] === 1) parents[chain[chain.length - 1]] = -1;
+        for (let k = chain.length - 1; k >= 0; k--) {
+            state[chain[k]] = 2;
+            order[placed++] = chain[k];
+        }
+    }
+    return order;
+};
+
+export const createBodyArrays = (bodies: CelestialBody[]): BodyArrays => {
+    const count = bodies.length;
+    const arrays: BodyArrays = {
+        count,
+        positions: new Float64Array(count * 3),
+        velocities: new Float64Array(count * 3),
+        masses: new Float64Array(count),
+        orbitMasses: new Float64Array(count),
+        locked: new Uint8Array(count),
+        radii: new Float64Array(count),
+        parents: new Int32Array(count).fill(-1),
+        order: new Int32Array(count),
+        elements: bodies.map(b => b.orbitalElements)
+    };
+
+    const indexById = new Map<string, number>();
+    bodies.forEach((b, i) => indexById.set(b.id, i));
+
+    bodies.forEach((b, i) => {
+        arrays.positions[i * 3] = b.position.x;
+        arrays.positions[i * 3 + 1] = b.position.y;
+        arrays.positions[i * 3 + 2] = b.position.z;
+        arrays.velocities[i * 3] = b.velocity.x;
+        arrays.velocities[i * 3 + 1] = b.velocity.y;
+        arrays.velocities[i * 3 + 2] = b.velocity.z;
+        arrays.masses[i] = b.type === BodyType.BARYCENTER ? 0 : b.mass;
+        arrays.locked[i] = b.isLocked ? 1 : 0;
+        arrays.radii[i] = b.radius;
+        if (b.parentId) arrays.parents[i] = indexById.get(b.parentId) ?? -1;
+    });
+
+    arrays.order = sortByParent(arrays.parents);
+    bodies.forEach((b, i) => {
+        if (arrays.parents[i] >= 0) arrays.orbitMasses[i] = orbitMass(b, bodies[arrays.parents[i]]);
+    });
+
+    return arrays;
+};
+
+/**
+ * Direct-summation gravitational acceleration on every unlocked body,
+ * written into `out` (length count * 3). Locked bodies get a zero vector
+ * since they follow Keplerian rails. Forces are Plummer-softened, so close
+ * passes get a large but finite kick that varies smoothly with distance.
+ */
+export const computeDirectAccelerations = (arrays: BodyArrays, out: Float64Array, settings: GravitySettings = DEFAULT_PHYSICS_SETTINGS): void => {
+    const { count, positions, masses, locked } = arrays;
+    const { G } = settings;
+    const softeningSq = settings.softening * settings.softening;
+    out.fill(0);
+
+    for (let i = 0; i < count; i++) {
+        if (locked[i]) continue;
+        const px = positions[i * 3], py = positions[i * 3 + 1], pz = positions[i * 3 + 2];
+
+        let ax = 0, ay = 0, az = 0;
+        for (let j = 0; j < count; j++) {
+            if (i === j || !attracts(arrays, j, settings)) continue;
+            const dx = positions[j * 3] - px;
+            const dy = positions[j * 3 + 1] - py;
+            const dz = positions[j * 3 + 2] - pz;
+            const softDistSq = dx*dx + dy*dy + dz*dz + softeningSq;
+
+            // Coincident bodies with no softening have no direction to pull in
+            if (softDistSq === 0) continue;
+
+            const f = (G * masses[j]) / (softDistSq * Math.sqrt(softDistSq));
+            ax += f * dx;
+            ay += f * dy;
+            az += f * dz;
+        }
+        out[i * 3] = ax;
+        out[i * 3 + 1] = ay;
+        out[i * 3 + 2] = az;
+    }
+};
+
+/**
+ * Gravitational acceleration on every unlocked body using the solver
+ * selected in `settings`.
+ */
+export const computeAccelerations = (arrays: BodyArrays, settings: PhysicsSettings, out: Float64Array): void => {
+    if (settings.solver === 'barnes-hut') {
+        computeBarnesHutAccelerations(arrays, settings.theta, out, settings);
+    } else {
+        computeDirectAccelerations(arrays, out, settings);
+    }
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BodyType, CelestialBody, IntegratorId } from '../types';
+import { createSimulationEngine } from './simulationEngine';
+
+const G = 0.5;
+const STAR_MASS = 1000;
+const GM = G * STAR_MASS;
+
+const star: CelestialBody = {
+    id: 'star',
+    name: 'Star',
+    type: BodyType.STAR,
+    mass: STAR_MASS,
+    radius: 0.2,
+    color: '#ffffff',
+    position: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    isLocked: true
+};
+
+/** A light free body at apoapsis of an orbit with semi-major axis `a` around the fixed star. */
+const planetAtApoapsis = (a: number, e: number): CelestialBody => {
+    const r = a * (1 + e);
+    return {
+        id: 'planet',
+        name: 'Planet',
+        type: BodyType.PLANET,
+        mass: 1e-6,
+        radius: 0.01,
+        color: '#3b82f6',
+        position: { x: r, y: 0, z: 0 },
+        velocity: { x: 0, y: 0, z: -Math.sqrt(GM * (1 - e) / (a * (1 + e))) },
+        parentId: 'star'
+    };
+};
+
+const periodOf = (a: number) => 2 * Math.PI * Math.sqrt(a ** 3 / GM);
+
+/** How far the planet ends up from where it started after one period of `steps` sub-steps. */
+const closureError = (integrator: IntegratorId, a: number, e: number, steps: number, tolerance = 1e-6) => {
+    const start = planetAtApoapsis(a, e);
+    const period = periodOf(a);
+    const engine = createSimulationEngine([star, start], { G, softening: 0, integrator, tolerance, timeStep: period / steps });
+    engine.step(period);
+    const { position } = engine.getState().bodies.find(b => b.id === 'planet')!;
+    return Math.hypot(position.x - start.position.x, position.y - start.position.y, position.z - start.position.z);
+};
+
+describe('integrators', () => {
+    it('converge at their order on a circular orbit', () => {
+        // Halving the step divides the error by 2^order
+        const ratio = (integrator: IntegratorId) => closureError(integrator, 10, 0, 100) / closureError(integrator, 10, 0, 200);
+        expect(Math.log2(ratio('verlet'))).toBeCloseTo(2, 0);
+        expect(Math.log2(ratio('rk4'))).toBeCloseTo(4, 0);
+    });
+
+    it('keeps RKF45 within its tolerance through a close periapsis pass', () => {
+        // e = 0.9 swings from 19 out to 1 from the star, where a fixed step this size would fail
+        const loose = closureError('rkf45', 10, 0.9, 20, 1e-6);
+        const tight = closureError('rkf45', 10, 0.9, 20, 1e-9);
+        expect(tight).toBeLessThan(1e-4);
+        expect(tight).toBeLessThan(loose);
+        expect(closureError('rk4', 10, 0.9, 20)).toBeGreaterThan(100 * loose);
+    });
+
+    it('reports a smaller step near periapsis', () => {
+        const a = 10, period = periodOf(a);
+        const engine = createSimulationEngine([star, planetAtApoapsis(a, 0.9)], { G, softening: 0, integrator: 'rkf45', timeStep: period / 20 });
+        const frame = period / 100;
+        const steps: number[] = [];
+        for (let i = 0; i < 100; i++) {
+            engine.step(frame);
+            steps.push(engine.getStepSize());
+        }
+        // Apoapsis at the start and end, periapsis halfway
+        const apoapsisStep = Math.min(steps[0], steps[99]);
+        const periapsisStep = Math.min(...steps.slice(45, 55));
+        expect(apoapsisStep).toBeLessThanOrEqual(frame);
+        expect(periapsisStep).toBeLessThan(apoapsisStep / 10);
+    });
+});
@@ -0,0 +1,230 @@
+import { IntegratorId } from '../types';
+import { BodyArrays } from './gravity';
+
+/**
+ * Fills `out` with the acceleration of every unlocked body for the current
+ * contents of `arrays.positions`, with locked bodies placed at `time`.
+ */
+export type AccelerationFn = (time: number, out: Float64Array) => void;
+
+export interface StepResult {
+    /** Signed step actually taken. */
+    taken: number;
+    /** Signed step the integrator suggests trying next. */
+    next: number;
+}
+
+/**
+ * Advances the unlocked bodies in `arrays` in place. Fixed-step integrators
+ * always take exactly `h`; adaptive ones may take a smaller step to meet
+ * `tolerance` and never take a larger one.
+ */
+export interface Integrator {
+    id: IntegratorId;
+    label: string;
+    adaptive: boolean;
+    step: (arrays: BodyArrays, time: number, h: number, accelerate: AccelerationFn, tolerance: number) => StepResult;
+}
+
+// Smallest step an adaptive integrator will shrink to before accepting the error anyway
+export const MIN_ADAPTIVE_STEP = 1e-5;
+
+// --- Shared Workspace ---
+
+interface Workspace {
+    size: number;
+    x0: Float64Array;
+    v0: Float64Array;
+    acc: Float64Array;
+    kx: Float64Array[];
+    kv: Float64Array[];
+}
+
+let workspace: Workspace | null = null;
+
+const acquireWorkspace = (size: number, stages: number): Workspace => {
+    if (!workspace || workspace.size !== size) {
+        workspace = {
+            size,
+            x0: new Float64Array(size),
+            v0: new Float64Array(size),
+            acc: new Float64Array(size),
+            kx: [],
+            kv: []
+        };
+    }
+    while (workspace.kx.length < stages) {
+        workspace.kx.push(new Float64Array(size));
+        workspace.kv.push(new Float64Array(size));
+    }
+    return workspace;
+};
+
+const restoreFreeBodies = (arrays: BodyArrays, ws: Workspace) => {
+    for (let i = 0; i < arrays.count; i++) {
+        if (arrays.locked[i]) continue;
+        for (let k = i * 3; k < i * 3 + 3; k++) {
+            arrays.positions[k] = ws.x0[k];
+            arrays.velocities[k] = ws.v0[k];
+        }
+    }
+};
+
+// --- Velocity Verlet ---
+
+const verlet: Integrator = {
+    id: 'verlet',
+    label: 'Velocity Verlet',
+    adaptive: false,
+    step: (arrays, time, h, accelerate) => {
+        const { count, positions, velocities, locked } = arrays;
+        const ws = acquireWorkspace(count * 3, 0);
+
+        accelerate(time, ws.acc);
+        for (let i = 0; i < count; i++) {
+            if (locked[i]) continue;
+            for (let k = i * 3; k < i * 3 + 3; k++) {
+                positions[k] += velocities[k] * h + 0.5 * ws.acc[k] * h * h;
+                velocities[k] += 0.5 * ws.acc[k] * h;
+            }
+        }
+
+        accelerate(time + h, ws.acc);
+        for (let i = 0; i < count; i++) {
+            if (locked[i]) continue;
+            for (let k = i * 3; k < i * 3 + 3; k++) {
+                velocities[k] += 0.5 * ws.acc[k] * h;
+            }
+        }
+        return { taken: h, next: h };
+    }
+};
+
+// --- Explicit Runge–Kutta ---
+
+interface ButcherTableau {
+    c: number[];
+    a: number[][];
+    b: number[];
+    /** Weights of (higher order - embedded lower order) solution, for error estimation. */
+    e?: number[];
+}
+
+const RK4_TABLEAU: ButcherTableau = {
+    c: [0, 1 / 2, 1 / 2, 1],
+    a: [[], [1 / 2], [0, 1 / 2], [0, 0, 1]],
+    b: [1 / 6, 1 / 3, 1 / 3, 1 / 6]
+};
+
+// Runge–Kutta–Fehlberg 4(5); the 5th-order solution is propagated
+const RKF45_B4 = [25 / 216, 0, 1408 / 2565, 2197 / 4104, -1 / 5, 0];
+const RKF45_B5 = [16 / 135, 0, 6656 / 12825, 28561 / 56430, -9 / 50, 2 / 55];
+const RKF45_TABLEAU: ButcherTableau = {
+    c: [0, 1 / 4, 3 / 8, 12 / 13, 1, 1 / 2],
+    a: [
+        [],
+        [1 / 4],
+        [3 / 32, 9 / 32],
+        [1932 / 2197, -7200 / 2197, 7296 / 2197],
+        [439 / 216, -8, 3680 / 513, -845 / 4104],
+        [-8 / 27, 2, -3544 / 2565, 1859 / 4104, -11 / 40]
+    ],
+    b: RKF45_B5,
+    e: RKF45_B5.map((b, i) => b - RKF45_B4[i])
+};
+
+/**
+ * One explicit Runge–Kutta step on the second-order system x' = v, v' = a(x, t).
+ * Returns the scaled error norm (<= 1 means within tolerance) when the
+ * tableau has an embedded error estimate, otherwise 0.
+ */
+const rungeKuttaStep = (
+    arrays: BodyArrays,
+    time: number,
+    h: number,
+    accelerate: AccelerationFn,
+    tableau: ButcherTableau,
+    tolerance: number
+): number => {
+    const { count, positions, velocities, locked } = arrays;
+    const stages = tableau.c.length;
+    const ws = acquireWorkspace(count * 3, stages);
+    ws.x0.set(positions);
+    ws.v0.set(velocities);
+
+    for (let s = 0; s < stages; s++) {
+        const row = tableau.a[s];
+        const kx = ws.kx[s];
+        for (let i = 0; i < count; i++) {
+            if (locked[i]) continue;
+            for (let k = i * 3; k < i * 3 + 3; k++) {
+                let dx = 0, dv = 0;
+                for (let j = 0; j < row.length; j++) {
+                    dx += row[j] * ws.kx[j][k];
+                    dv += row[j] * ws.kv[j][k];
+                }
+                positions[k] = ws.x0[k] + h * dx;
+                kx[k] = ws.v0[k] + h * dv;
+            }
+        }
+        accelerate(time + tableau.c[s] * h, ws.kv[s]);
+    }
+
+    let errorNorm = 0;
+    for (let i = 0; i < count; i++) {
+        if (locked[i]) continue;
+        for (let k = i * 3; k < i * 3 + 3; k++) {
+            let dx = 0, dv = 0, ex = 0, ev = 0;
+            for (let s = 0; s < stages; s++) {
+                dx += tableau.b[s] * ws.kx[s][k];
+                dv += tableau.b[s] * ws.kv[s][k];
+                if (tableau.e) {
+                    ex += tableau.e[s] * ws.kx[s][k];
+                    ev += tableau.e[s] * ws.kv[s][k];
+                }
+            }
+            positions[k] = ws.x0[k] + h * dx;
+            velocities[k] = ws.v0[k] + h * dv;
+            if (tableau.e) {
+                errorNorm = Math.max(
+                    errorNorm,
+                    Math.abs(h * ex) / (tolerance * (1 + Math.abs(ws.x0[k]))),
+                    Math.abs(h * ev) / (tolerance * (1 + Math.abs(ws.v0[k])))
+                );
+            }
+        }
+    }
+    return errorNorm;
+};
+
+const rk4: Integrator = {
+    id: 'rk4',
+    label: 'Runge–Kutta 4',
+    adaptive: false,
+    step: (arrays, time, h, accelerate, tolerance) => {
+        rungeKuttaStep(arrays, time, h, accelerate, RK4_TABLEAU, tolerance);
+        return { taken: h, next: h };
+    }
+};
+
+const rkf45: Integrator = {
+    id: 'rkf45',
+    label: 'RKF45 (adaptive)',
+    adaptive: true,
+    step: (arrays, time, h, accelerate, tolerance) => {
+        let attempt = h;
+        while (true) {
+            const error = rungeKuttaStep(arrays, time, attempt, accelerate, RKF45_TABLEAU, tolerance);
+            if (error <= 1 || Math.abs(attempt) <= MIN_ADAPTIVE_STEP) {
+                const growth = error === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(error, -0.2)));
+                return { taken: attempt, next: attempt * growth };
+            }
+            // Rejected: roll back and retry with a smaller step
+            restoreFreeBodies(arrays, workspace!);
+            const shrink = Math.min(0.5, Math.max(0.1, 0.9 * Math.pow(error, -0.25)));
+            attempt = Math.sign(attempt) * Math.max(MIN_ADAPTIVE_STEP, Math.abs(attempt * shrink));
+        }
+    }
+};
+
+export const INTEGRATORS: Record<IntegratorId, Integrator> = { verlet, rk4, rkf45 };
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { OrbitalElements, Vector3 } from '../types';
+import { calculateOrbitalElements, calculateOrbitalPosition, calculateOrbitalState, keplerianMeanMotion, solveHyperbolicKepler, solveKepler } from './orbitalMechanics';
+
+const G = 0.5;
+const PARENT_MASS = 1000;
+const MU = G * PARENT_MASS;
+
+const flatOrbit = (semiMajorAxis: number, eccentricity: number): OrbitalElements =>
+    ({ semiMajorAxis, eccentricity, inclination: 0, ascendingNode: 0, periapsis: 0, meanAnomalyEpoch: 0 });
+
+const distance = (a: Vector3, b: Vector3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const length = (v: Vector3) => Math.hypot(v.x, v.y, v.z);
+
+/** Mean anomaly at true anomaly v, by the textbook formula for each kind of orbit. */
+const meanAnomalyAt = (v: number, e: number) => {
+    if (e < 1) {
+        const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(v / 2), Math.sqrt(1 + e) * Math.cos(v / 2));
+        return E - e * Math.sin(E);
+    }
+    if (e > 1) {
+        const H = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(v / 2));
+        return e * Math.sinh(H) - H;
+    }
+    const D = Math.tan(v / 2);
+    return D + D * D * D / 3;
+};
+
+describe('Kepler solvers', () => {
+    it('solve the elliptic equation at e = 0.99', () => {
+        for (const M of [-3, -0.5, 1e-6, 0.01, 0.3, 2, 3.1, 20]) {
+            const E = solveKepler(M, 0.99);
+            expect(E - 0.99 * Math.sin(E) - M).toBeCloseTo(0, 12);
+        }
+    });
+
+    it('solve the hyperbolic equation at e = 3', () => {
+        for (const M of [-100, -1, 1e-6, 0.5, 10, 1000]) {
+            const H = solveHyperbolicKepler(M, 3);
+            expect((3 * Math.sinh(H) - H - M) / Math.max(1, Math.abs(M))).toBeCloseTo(0, 12);
+        }
+    });
+});
+
+describe('calculateOrbitalPosition', () => {
+    // In the ecliptic with periapsis along +X, the true anomaly is the angle from +X towards -Z.
+    // Mean anomalies stay within ±π, so those of closed orbits need no wrapping
+    for (const [a, e] of [[10, 0.99], [2, 1], [-5, 3]]) {
+        it(`follows the mean anomaly along an orbit with e = ${e}`, () => {
+            const elements = flatOrbit(a, e);
+            const n = keplerianMeanMotion(elements, MU);
+            const q = e === 1 ? a : a * (1 - e);
+            for (const M of [-3, -0.2, 0, 0.05, 1, 3]) {
+                const time = M / n;
+                const position = calculateOrbitalPosition(elements, time, PARENT_MASS, G);
+                const v = Math.atan2(-position.z, position.x);
+                expect(position.y).toBeCloseTo(0, 12);
+                expect(length(position)).toBeCloseTo(q * (1 + e) / (1 + e * Math.cos(v)), 8);
+                expect(meanAnomalyAt(v, e)).toBeCloseTo(M, 8);
+            }
+        });
+    }
+});
+
+describe('calculateOrbitalElements', () => {
+    const position = { x: 3, y: 1, z: -2 };
+    const escape = Math.sqrt(2 * MU / length(position));
+    // Directions off the radial, so each orbit has a plane; scaled to the parabolic speed and past it
+    const direction = { x: -0.3, y: 0.5, z: -0.8 };
+    const velocityAt = (factor: number) => {
+        const scale = factor * escape / length(direction);
+        return { x: direction.x * scale, y: direction.y * scale, z: direction.z * scale };
+    };
+
+    for (const factor of [1, 1.0001, 1.2, 2]) {
+        it(`round-trips an open orbit at ${factor} times the escape speed`, () => {
+            const velocity = velocityAt(factor);
+            const time = 7;
+            const elements = calculateOrbitalElements(position, velocity, time, PARENT_MASS, G)!;
+            expect(elements.eccentricity).toBeGreaterThanOrEqual(factor === 1 ? 1 - 1e-12 : 1);
+
+            const state = calculateOrbitalState(elements, time, PARENT_MASS, G);
+            expect(distance(state.position, position) / length(position)).toBeLessThan(1e-9);
+            expect(distance(state.velocity, velocity) / length(velocity)).toBeLessThan(1e-9);
+        });
+    }
+
+    it('recovers the elements of a hyperbola from its state', () => {
+        const elements: OrbitalElements = { semiMajorAxis: -4, eccentricity: 2.5, inclination: 0.7, ascendingNode: 1.9, periapsis: 4.4, meanAnomalyEpoch: -1.3 };
+        const time = 2;
+        const { position, velocity } = calculateOrbitalState(elements, time, PARENT_MASS, G);
+        const fitted = calculateOrbitalElements(position, velocity, time, PARENT_MASS, G)!;
+        expect(fitted.semiMajorAxis).toBeCloseTo(elements.semiMajorAxis, 9);
+        expect(fitted.eccentricity).toBeCloseTo(elements.eccentricity, 9);
+        expect(fitted.inclination).toBeCloseTo(elements.inclination, 9);
+        expect(fitted.ascendingNode).toBeCloseTo(elements.ascendingNode, 9);
+        expect(fitted.periapsis).toBeCloseTo(elements.periapsis, 9);
+        expect(fitted.meanAnomalyEpoch).toBeCloseTo(elements.meanAnomalyEpoch, 9);
+    });
+});
@@ -0,0 +1,443 @@
+import { OrbitalElements, Vector3 } from '../types';
+import { G_CONSTANT } from '../constants';
+
+// --- Orbital Mechanics Helpers ---
+
+const TWO_PI = Math.PI * 2;
+// Solvers stop once a step changes the anomaly by less than this (relative to 1 or its size)
+const SOLVER_TOLERANCE = 1e-13;
+const SOLVER_MAX_ITERATIONS = 100;
+// Within this of e = 1 neither anomaly is well conditioned, and orbits are propagated with universal variables
+const NEAR_PARABOLIC = 1e-2;
+
+/**
+ * Finds the root of an increasing function known to lie in [lo, hi] by
+ * Newton's method, bisecting whenever a step would leave the bracket, so it
+ * converges however eccentric the orbit instead of oscillating.
+ */
+const solveBracketed = (f: (x: number) => number, df: (x: number) => number, lo: number, hi: number, guess: number): number => {
+    let x = Math.min(hi, Math.max(lo, guess));
+    for (let i = 0; i < SOLVER_MAX_ITERATIONS; i++) {
+        const fx = f(x);
+        if (fx === 0) return x;
+        if (fx > 0) hi = x;
+        else lo = x;
+        let next = x - fx / df(x);
+        if (!(next > lo && next < hi)) next = (lo + hi) / 2;
+        if (Math.abs(next - x) <= SOLVER_TOLERANCE * Math.max(1, Math.abs(next))) return next;
+        x = next;
+    }
+    return x;
+};
+
+/**
+ * Solves Kepler's Equation M = E - e*sin(E) for E (Eccentric Anomaly), e < 1.
+ * M is reduced to [-π, π] first, where E lies between |M| and |M| + e.
+ */
+export const solveKepler = (M: number, e: number): number => {
+    const turns = Math.round(M / TWO_PI);
+    const m = M - turns * TWO_PI;
+    const target = Math.abs(m);
+    const E = solveBracketed(
+        E => E - e * Math.sin(E) - target,
+        E => 1 - e * Math.cos(E),
+        target,
+        Math.min(Math.PI, target + e),
+        target + 0.85 * e // Danby's starting value
+    );
+    return turns * TWO_PI + Math.sign(m) * E;
+};
+
+/**
+ * Solves the hyperbolic Kepler equation M = e*sinh(H) - H for the hyperbolic
+ * anomaly H, e > 1. Since sinh(H) >= H, |H| is at most asinh(|M| / (e - 1)).
+ */
+export const solveHyperbolicKepler = (M: number, e: number): number => {
+    const target = Math.abs(M);
+    const H = solveBracketed(
+        H => e * Math.sinh(H) - H - target,
+        H => e * Math.cosh(H) - 1,
+        0,
+        Math.asinh(target / (e - 1)),
+        Math.log(2 * target / e + 1.8)
+    );
+    return Math.sign(M) * H;
+};
+
+// Stumpff functions C(z) = (1 - cos√z) / z and S(z) = (√z - sin√z) / √z³, continued to z <= 0; series near 0
+const stumpffC = (z: number) => {
+    if (z > 0.01) return (1 - Math.cos(Math.sqrt(z))) / z;
+    if (z < -0.01) return (Math.cosh(Math.sqrt(-z)) - 1) / -z;
+    return 1 / 2 - z / 24 + z * z / 720 - z * z * z / 40320;
+};
+const stumpffS = (z: number) => {
+    if (z > 0.01) {
+        const s = Math.sqrt(z);
+        return (s - Math.sin(s)) / (s * s * s);
+    }
+    if (z < -0.01) {
+        const s = Math.sqrt(-z);
+        return (Math.sinh(s) - s) / (s * s * s);
+    }
+    return 1 / 6 - z / 120 + z * z / 5040 - z * z * z / 362880;
+};
+
+/**
+ * Solves the universal Kepler equation q*χ + e*χ³*S(χ²(1-e)/q) = √mu * t for
+ * the universal anomaly χ, t after periapsis. Its derivative is the distance
+ * r > 0, and |χ| <= √mu * |t| / q since S is positive.
+ */
+const solveUniversalKepler = (tau: number, q: number, e: number): number => {
+    const alpha = (1 - e) / q;
+    const target = Math.abs(tau);
+    // Start from the exact parabolic solution (Barker's equation), χ³ + 6qχ - 6√mu*t = 0
+    const root = Math.sqrt(9 * target * target + 8 * q * q * q);
+    const guess = Math.cbrt(3 * target + root) + Math.cbrt(3 * target - root);
+    const chi = solveBracketed(
+        chi => q * chi + e * chi * chi * chi * stumpffS(alpha * chi * chi) - target,
+        chi => q + e * chi * chi * stumpffC(alpha * chi * chi),
+        0,
+        target / q,
+        guess
+    );
+    return Math.sign(tau) * chi;
+};
+
+/**
+ * Mean anomaly n*t at universal anomaly χ, t after periapsis: the universal
+ * Kepler equation evaluated directly, free of the cancellation in
+ * E - e*sin(E) and e*sinh(H) - H when e is close to 1.
+ */
+const universalMeanAnomaly = (chi: number, q: number, e: number, n: number, mu: number) =>
+    n * (q * chi + e * chi * chi * chi * stumpffS((1 - e) / q * chi * chi)) / Math.sqrt(mu);
+
+/** Distance of closest approach. Parabolic orbits (e = 1) keep it in place of their infinite semi-major axis. */
+export const periapsisDistance = ({ semiMajorAxis: a, eccentricity: e }: OrbitalElements): number =>
+    e === 1 ? a : a * (1 - e);
+
+/**
+ * Mean motion sqrt(mu / |a|^3), or sqrt(mu / 2q^3) for a parabola, whose mean
+ * anomaly is then tan(v/2) + tan³(v/2)/3 (Barker's equation).
+ */
+export const keplerianMeanMotion = (elements: OrbitalElements, mu: number): number =>
+    elements.eccentricity === 1
+        ? Math.sqrt(mu / (2 * Math.pow(elements.semiMajorAxis, 3)))
+        : Math.sqrt(mu / Math.pow(Math.abs(elements.semiMajorAxis), 3));
+
+/**
+ * Rotates a vector from the perifocal frame (P towards periapsis, Q 90° ahead
+ * in the orbital plane) into the Three.js world frame.
+ */
+const rotateToWorld = (P: number, Q: number, elements: OrbitalElements): Vector3 => {
+    const { inclination: i, ascendingNode: omega_uppercase, periapsis: omega_lowercase } = elements;
+
+    // We use standard rotation matrices for:
+    // - Argument of Periapsis (w)
+    // - Inclination (i)
+    // - Longitude of Ascending Node (Ω)
+
+    const cos_w = Math.cos(omega_lowercase);
+    const sin_w = Math.sin(omega_lowercase);
+    const cos_i = Math.cos(i);
+    const sin_i = Math.sin(i);
+    const cos_O = Math.cos(omega_uppercase);
+    const sin_O = Math.sin(omega_uppercase);
+
+    // Standard Astronomy Rotation (Z-up system)
+
+    // Rotate by w around Z
+    const x1 = P * cos_w - Q * sin_w;
+    const y1 = P * sin_w + Q * cos_w;
+    const z1 = 0;
+
+    // Rotate by i around X
+    const x2 = x1;
+    const y2 = y1 * cos_i - z1 * sin_i;
+    const z2 = y1 * sin_i + z1 * cos_i;
+
+    // Rotate by Ω around Z
+    const x3 = x2 * cos_O - y2 * sin_O;
+    const y3 = x2 * sin_O + y2 * cos_O;
+    const z3 = z2;
+
+    // Convert to Three.js Coordinate System (Y-up)
+    // Standard Z (North) -> Three Y.
+    // Standard X (Vernal Equinox) -> Three X.
+    // Standard Y -> Three -Z.
+
+    return { x: x3, y: z3, z: -y3 };
+};
+
+/**
+ * The elements at the given time: unchanged unless they carry secular rates,
+ * in which case each drifts linearly from its value at t=0. Drift never turns
+ * a closed orbit into an open one or the other way round.
+ */
+export const elementsAt = (elements: OrbitalElements, time: number): OrbitalElements => {
+    const { rates } = elements;
+    if (!rates) return elements;
+    const e = elements.eccentricity + rates.eccentricity * time;
+    return {
+        semiMajorAxis: elements.semiMajorAxis + rates.semiMajorAxis * time,
+        eccentricity: elements.eccentricity < 1 ? Math.min(0.99, Math.max(0, e)) : Math.max(1, e),
+        inclination: elements.inclination + rates.inclination * time,
+        ascendingNode: elements.ascendingNode + rates.ascendingNode * time,
+        periapsis: elements.periapsis + rates.periapsis * time,
+        meanAnomalyEpoch: elements.meanAnomalyEpoch,
+        rates
+    };
+};
+
+/**
+ * Solves for the distance and true anomaly at the given time, along with the
+ * elements in effect then. Closed orbits go through the eccentric anomaly,
+ * open ones through the hyperbolic anomaly, and those close to parabolic
+ * through the universal anomaly, which stays well conditioned across e = 1.
+ */
+const anomaliesAt = (initial: OrbitalElements, time: number, parentMass: number, G: number) => {
+    const elements = elementsAt(initial, time);
+    const { semiMajorAxis: a, eccentricity: e, meanAnomalyEpoch: M0 } = elements;
+
+    // n = sqrt(mu / a^3) where mu = G * M_parent, unless an ephemeris gives it
+    const mu = G * parentMass;
+    const n = elements.rates ? elements.rates.meanMotion : keplerianMeanMotion(elements, mu);
+    let M = M0 + n * time;
+
+    if (Math.abs(1 - e) < NEAR_PARABOLIC) {
+        // Universal variables need the time since periapsis, within one revolution if closed
+        if (e < 1) M -= Math.round(M / TWO_PI) * TWO_PI;
+        const q = periapsisDistance(elements);
+        const chi = solveUniversalKepler(n !== 0 ? M * Math.sqrt(mu) / n : 0, q, e);
+        const z = (1 - e) / q * chi * chi;
+        // Perifocal position from the f and g functions, starting at periapsis
+        const x = q - chi * chi * stumpffC(z);
+        const y = chi * Math.sqrt(q * (1 + e)) * (1 - z * stumpffS(z));
+        return { elements, mu, r: Math.hypot(x, y), v: Math.atan2(y, x) };
+    }
+
+    if (e < 1) {
+        const E = solveKepler(M, e);
+        // tan(v/2) = sqrt((1+e)/(1-e)) * tan(E/2)
+        const v = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+        return { elements, mu, r: a * (1 - e * Math.cos(E)), v };
+    }
+
+    const H = solveHyperbolicKepler(M, e);
+    // tan(v/2) = sqrt((e+1)/(e-1)) * tanh(H/2); a < 0
+    const v = 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(H / 2));
+    return { elements, mu, r: a * (1 - e * Math.cosh(H)), v };
+};
+
+/**
+ * Calculates the 3D position of a body given its orbital elements and current time.
+ * Returns position relative to the parent body.
+ */
+export const calculateOrbitalPosition = (initial: OrbitalElements, time: number, parentMass: number, G = G_CONSTANT): Vector3 => {
+    // Mean Anomaly (M) -> Eccentric or Hyperbolic Anomaly -> distance (r) and True Anomaly (v)
+    const { elements, r, v } = anomaliesAt(initial, time, parentMass, G);
+
+    // Position in the orbital plane (x' towards periapsis), rotated to 3D Heliocentric/Geocentric Coords
+    return rotateToWorld(r * Math.cos(v), r * Math.sin(v), elements);
+};
+
+/**
+ * Calculates both position and velocity of a body on its Keplerian orbit at
+ * the given time, solving Kepler's equation once. Both are relative to the
+ * parent body.
+ */
+export const calculateOrbitalState = (initial: OrbitalElements, time: number, parentMass: number, G = G_CONSTANT): { position: Vector3, velocity: Vector3 } => {
+    const { elements, mu, r, v } = anomaliesAt(initial, time, parentMass, G);
+    const { eccentricity: e } = elements;
+
+    // Perifocal velocity: sqrt(mu / p) * (-sin v, e + cos v), with semi-latus rectum p = q(1 + e)
+    const p = periapsisDistance(elements) * (1 + e);
+    const h = Math.sqrt(mu / p);
+
+    return {
+        position: rotateToWorld(r * Math.cos(v), r * Math.sin(v), elements),
+        velocity: rotateToWorld(-h * Math.sin(v), h * (e + Math.cos(v)), elements)
+    };
+};
+
+/**
+ * Position relative to the parent at true anomaly `v`, for drawing orbits.
+ * On open orbits v must stay short of the asymptotes, |v| < acos(-1/e).
+ */
+export const orbitPointAtTrueAnomaly = (elements: OrbitalElements, v: number): Vector3 => {
+    const e = elements.eccentricity;
+    const r = periapsisDistance(elements) * (1 + e) / (1 + e * Math.cos(v));
+    return rotateToWorld(r * Math.cos(v), r * Math.sin(v), elements);
+};
+
+/**
+ * Shape and phase of an orbit as seen from the parent body. Unbound orbits
+ * have an infinite apoapsis and period.
+ */
+export interface OrbitSummary {
+    distance: number;
+    speed: number;
+    eccentricity: number;
+    trueAnomaly: number; // radians, 0 at periapsis
+    periapsis: number; // distance at closest approach
+    apoapsis: number;
+    period: number;
+    specificEnergy: number; // v^2/2 - mu/r per unit mass; negative when bound
+}
+
+/**
+ * Summarises the osculating orbit of a body from its position and velocity
+ * relative to the parent. Works for locked and free bodies alike.
+ */
+export const describeOrbit = (relPos: Vector3, relVel: Vector3, parentMass: number, G = G_CONSTANT): OrbitSummary => {
+    const mu = G * parentMass;
+    const distance = Math.sqrt(relPos.x ** 2 + relPos.y ** 2 + relPos.z ** 2);
+    const speed = Math.sqrt(relVel.x ** 2 + relVel.y ** 2 + relVel.z ** 2);
+    const specificEnergy = speed * speed / 2 - mu / distance;
+
+    // |h| = |r x v|; semi-latus rectum p = h^2 / mu
+    const hx = relPos.y * relVel.z - relPos.z * relVel.y;
+    const hy = relPos.z * relVel.x - relPos.x * relVel.z;
+    const hz = relPos.x * relVel.y - relPos.y * relVel.x;
+    const hSq = hx*hx + hy*hy + hz*hz;
+    const p = hSq / mu;
+    const eccentricity = Math.sqrt(Math.max(0, 1 + 2 * specificEnergy * hSq / (mu * mu)));
+
+    // e cos v = p/r - 1 and e sin v = (r.v) h / (mu r)
+    const rv = relPos.x * relVel.x + relPos.y * relVel.y + relPos.z * relVel.z;
+    const trueAnomaly = Math.atan2(rv * Math.sqrt(hSq) / (mu * distance), p / distance - 1);
+
+    const bound = eccentricity < 1;
+    const a = -mu / (2 * specificEnergy);
+    return {
+        distance,
+        speed,
+        eccentricity,
+        trueAnomaly: trueAnomaly < 0 ? trueAnomaly + Math.PI * 2 : trueAnomaly,
+        periapsis: p / (1 + eccentricity),
+        apoapsis: bound ? p / (1 - eccentricity) : Infinity,
+        period: bound ? 2 * Math.PI * Math.sqrt(a * a * a / mu) : Infinity,
+        specificEnergy
+    };
+};
+
+/**
+ * Rotates a vector given in the standard Z-up frame into the plane of an
+ * orbit with the given inclination and ascending node, returning its (P, Q)
+ * components measured from the ascending node. Inverse of rotateToWorld
+ * without the rotation by the argument of periapsis.
+ */
+const rotateToOrbitPlane = (x: number, y: number, z: number, inclination: number, ascendingNode: number) => {
+    // Undo Ω around Z
+    const cos_O = Math.cos(ascendingNode);
+    const sin_O = Math.sin(ascendingNode);
+    const x1 = x * cos_O + y * sin_O;
+    const y1 = -x * sin_O + y * cos_O;
+
+    // Undo i around X
+    const y2 = y1 * Math.cos(inclination) + z * Math.sin(inclination);
+
+    return { P: x1, Q: y2 };
+};
+
+/**
+ * Fits osculating orbital elements to a state vector relative to the parent
+ * body, such that propagating them from `time` reproduces that state. Open
+ * orbits get e >= 1 and, past e = 1, a negative semi-major axis. Returns null
+ * if the body is moving straight towards or away from the parent.
+ */
+export const calculateOrbitalElements = (relPos: Vector3, relVel: Vector3, time: number, parentMass: number, G = G_CONSTANT): OrbitalElements | null => {
+    const mu = G * parentMass;
+    if (!(mu > 0)) return null;
+
+    // Work in the standard Z-up frame (Three X, -Z, Y)
+    const rx = relPos.x, ry = -relPos.z, rz = relPos.y;
+    const vx = relVel.x, vy = -relVel.z, vz = relVel.y;
+
+    const r = Math.sqrt(rx*rx + ry*ry + rz*rz);
+    const speedSq = vx*vx + vy*vy + vz*vz;
+    const energy = speedSq / 2 - mu / r;
+    if (r === 0) return null;
+
+    // Specific angular momentum h = r x v
+    const hx = ry * vz - rz * vy;
+    const hy = rz * vx - rx * vz;
+    const hz = rx * vy - ry * vx;
+    const h = Math.sqrt(hx*hx + hy*hy + hz*hz);
+    if (h < 1e-12) return null; // Radial trajectory: no orbital plane
+
+    const inclination = Math.acos(Math.max(-1, Math.min(1, hz / h)));
+    // Node line n = Z x h; undefined for equatorial orbits, where Ω = 0 by convention
+    const ascendingNode = Math.hypot(hx, hy) > 1e-9 * h ? Math.atan2(hx, -hy) : 0;
+
+    // Eccentricity vector e = ((v^2 - mu/r) r - (r.v) v) / mu
+    const rv = rx * vx + ry * vy + rz * vz;
+    const ex = ((speedSq - mu / r) * rx - rv * vx) / mu;
+    const ey = ((speedSq - mu / r) * ry - rv * vy) / mu;
+    const ez = ((speedSq - mu / r) * rz - rv * vz) / mu;
+    // Its length from the energy instead, so that e < 1 exactly when the orbit is bound
+    const e = Math.sqrt(Math.max(0, 1 + 2 * energy * h * h / (mu * mu)));
+
+    // From the semi-latus rectum p = h^2 / mu, which stays finite through e = 1 where a doesn't
+    const q = h * h / mu / (1 + e);
+    const a = e === 1 ? q : q / (1 - e);
+
+    // Angles within the orbital plane, measured from the ascending node
+    const radial = rotateToOrbitPlane(rx, ry, rz, inclination, ascendingNode);
+    const argumentOfLatitude = Math.atan2(radial.Q, radial.P);
+    let periapsis = 0;
+    if (Math.hypot(ex, ey, ez) > 1e-9) {
+        const ecc = rotateToOrbitPlane(ex, ey, ez, inclination, ascendingNode);
+        periapsis = Math.atan2(ecc.Q, ecc.P);
+    }
+    const wrap = (angle: number) => ((angle % TWO_PI) + TWO_PI) % TWO_PI;
+    const v = wrap(argumentOfLatitude - periapsis + Math.PI) - Math.PI;
+
+    // True anomaly -> Eccentric, Hyperbolic or universal anomaly -> Mean anomaly, then back to epoch t = 0
+    const elements: OrbitalElements = { semiMajorAxis: a, eccentricity: e, inclination, ascendingNode: wrap(ascendingNode), periapsis: wrap(periapsis), meanAnomalyEpoch: 0 };
+    const n = keplerianMeanMotion(elements, mu);
+    let M: number;
+    if (e < 1) {
+        const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(v / 2), Math.sqrt(1 + e) * Math.cos(v / 2));
+        M = Math.abs(1 - e) < NEAR_PARABOLIC ? universalMeanAnomaly(Math.sqrt(a) * E, q, e, n, mu) : E - e * Math.sin(E);
+    } else if (e > 1) {
+        const H = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(v / 2));
+        M = Math.abs(1 - e) < NEAR_PARABOLIC ? universalMeanAnomaly(Math.sqrt(-a) * H, q, e, n, mu) : e * Math.sinh(H) - H;
+    } else {
+        const D = Math.tan(v / 2);
+        M = D + D * D * D / 3;
+    }
+
+    // Closed orbits' mean anomaly is wrapped to [-π, π], leaving the tiny values of near-parabolic orbits exact;
+    // open orbits pass periapsis once, so theirs isn't an angle to wrap
+    const M0 = M - n * time;
+    elements.meanAnomalyEpoch = e < 1 ? M0 - Math.round(M0 / TWO_PI) * TWO_PI : M0;
+    return elements;
+};
+
+// --- Launch Presets ---
+
+/**
+ * Unit vector in the ecliptic (XZ) plane perpendicular to `relPos`, in the
+ * same sense of rotation as the planets' orbits.
+ */
+const progradeDirection = (relPos: Vector3): Vector3 => {
+    // r x up, with up = +Y: counter-clockwise seen from above, like the planets
+    const x = relPos.z;
+    const z = -relPos.x;
+    const length = Math.hypot(x, z);
+    return length > 0 ? { x: x / length, y: 0, z: z / length } : { x: 0, y: 0, z: -1 };
+};
+
+/** Velocity relative to the parent for a circular, prograde orbit through `relPos`. */
+export const circularOrbitVelocity = (relPos: Vector3, parentMass: number, G = G_CONSTANT): Vector3 => {
+    const r = Math.sqrt(relPos.x ** 2 + relPos.y ** 2 + relPos.z ** 2);
+    const speed = r > 0 ? Math.sqrt(G * parentMass / r) : 0;
+    const dir = progradeDirection(relPos);
+    return { x: dir.x * speed, y: 0, z: dir.z * speed };
+};
+
+/** Velocity relative to the parent that just escapes it, heading prograde from `relPos`. */
+export const escapeVelocity = (relPos: Vector3, parentMass: number, G = G_CONSTANT): Vector3 => {
+    const circular = circularOrbitVelocity(relPos, parentMass, G);
+    return { x: circular.x * Math.SQRT2, y: 0, z: circular.z * Math.SQRT2 };
+};
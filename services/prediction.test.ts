@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { BodyType, CelestialBody } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS, UNIT_SYSTEMS, unitSettings } from '../constants';
+import { createSimulationEngine } from './simulationEngine';
+import { predictTrajectories } from './prediction';
+
+const settings = { ...DEFAULT_PHYSICS_SETTINGS, ...unitSettings('astronomical'), collisionMode: 'none' as const };
+
+const sun: CelestialBody = {
+    id: 'sun',
+    name: 'Sun',
+    type: BodyType.STAR,
+    mass: 1,
+    radius: 0.00465,
+    color: '#ffcc00',
+    position: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    isLocked: true
+};
+
+const earth: CelestialBody = {
+    id: 'earth',
+    name: 'Earth',
+    type: BodyType.PLANET,
+    mass: 3e-6,
+    radius: 4.26e-5,
+    color: '#3b82f6',
+    position: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    isLocked: true,
+    parentId: 'sun',
+    orbitalElements: { semiMajorAxis: 1, eccentricity: 0, inclination: 0, ascendingNode: 0, periapsis: 0, meanAnomalyEpoch: 0 }
+};
+
+describe('predictTrajectories', () => {
+    it('finds a close approach to a planet in astronomical units', () => {
+        // An asteroid passing 0.01 AU from the Earth on day 40, run back to day 0 to start from
+        const ENCOUNTER = 40;
+        const engine = createSimulationEngine([sun, earth], settings);
+        engine.seek(ENCOUNTER);
+        const at = engine.getState().bodies.find(b => b.id === 'earth')!;
+        const rock: CelestialBody = {
+            id: 'rock',
+            name: 'Rock',
+            type: BodyType.ASTEROID,
+            mass: 1e-15,
+            radius: 1e-8,
+            color: '#888888',
+            position: { x: at.position.x * 1.01, y: at.position.y, z: at.position.z * 1.01 },
+            velocity: { x: at.velocity.x, y: 0.01, z: at.velocity.z },
+            parentId: 'sun'
+        };
+        engine.addBody(rock);
+        engine.seek(0);
+
+        const [prediction] = predictTrajectories(engine.getState(), settings, ['rock']);
+        const encounter = prediction.encounters.find(e => e.otherId === 'earth');
+        expect(encounter).toBeDefined();
+        expect(Math.abs(encounter!.time - ENCOUNTER)).toBeLessThanOrEqual(UNIT_SYSTEMS.astronomical.prediction.interval);
+        expect(encounter!.distance).toBeLessThan(0.02);
+        expect(encounter!.collision).toBe(false);
+    });
+});
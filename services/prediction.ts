@@ -0,0 +1,117 @@
+import { CelestialBody, PhysicsSettings, Vector3 } from '../types';
+import { UNIT_SYSTEMS } from '../constants';
+import { createSimulationEngine, SimulationState } from './simulationEngine';
+
+// --- Trajectory Prediction ---
+// Runs a throwaway copy of the simulation forward so the real state is never
+// touched. Every body moves as it would in the real run (free bodies are
+// integrated, locked ones follow their rails), but collisions are switched
+// off so the predicted paths pass through each other and can be inspected.
+// Light bodies on rails (the belts) are left out of the copy: they barely pull
+// on anything, and propagating thousands of them would stall the worker. How
+// light, and how far apart the samples are, depends on the unit system (see
+// UnitSystemConstants.prediction).
+
+export const PREDICTION_SAMPLES = 200;
+// Passes closer than this many times the sum of radii, or within the close-approach distance of the settings, count as close approaches
+const CLOSE_APPROACH_FACTOR = 4;
+
+export interface Encounter {
+    otherId: string;
+    time: number;
+    distance: number;
+    position: Vector3;
+    /** True if the bodies touch, in which case the path ends here. */
+    collision: boolean;
+}
+
+export interface TrajectoryPrediction {
+    id: string;
+    /** Predicted positions, packed as [x0, y0, z0, x1, ...], starting at the current position. */
+    points: Float64Array;
+    encounters: Encounter[];
+}
+
+/**
+ * Predicts the paths of the `targets` bodies from `state`. `extraBody`, if
+ * given, is added to the copy first (e.g. a body the launch tool is aiming)
+ * and is predicted along with the targets.
+ */
+export const predictTrajectories = (
+    state: SimulationState,
+    settings: PhysicsSettings,
+    targets: string[],
+    extraBody?: CelestialBody,
+    samples = PREDICTION_SAMPLES,
+    interval = UNIT_SYSTEMS[settings.units].prediction.interval
+): TrajectoryPrediction[] => {
+    const { minRailsMass } = UNIT_SYSTEMS[settings.units].prediction;
+    const all = extraBody ? [...state.bodies, extraBody] : state.bodies;
+    const ids = extraBody ? [...targets, extraBody.id] : targets;
+
+    // Keep what matters, plus the rails parents of everything kept
+    const byId = new Map(all.map(b => [b.id, b]));
+    const keep = new Set<string>();
+    const include = (body: CelestialBody | undefined) => {
+        for (let b = body; b && !keep.has(b.id); b = b.isLocked && b.parentId ? byId.get(b.parentId) : undefined) {
+            keep.add(b.id);
+        }
+    };
+    all.forEach(b => { if (!b.isLocked || b.mass >= minRailsMass) include(b); });
+    ids.forEach(id => include(byId.get(id)));
+    const bodies = all.filter(b => keep.has(b.id));
+    const indices = ids.map(id => bodies.findIndex(b => b.id === id)).filter(i => i >= 0);
+    if (indices.length === 0) return [];
+
+    // Parents found along the way would only matter to the event log
+    const engine = createSimulationEngine([], { ...settings, collisionMode: 'none', soiReparenting: false, detectEvents: false });
+    engine.restore({ time: state.time, bodies, seed: state.seed });
+
+    const tracks = indices.map(index => ({
+        index,
+        points: new Float64Array((samples + 1) * 3),
+        length: 0,
+        ended: false,
+        // Closest pass per other body, by index
+        closest: new Map<number, Encounter>()
+    }));
+
+    for (let sample = 0; sample <= samples; sample++) {
+        if (sample > 0) engine.step(interval);
+        const { positions, time } = engine.getSnapshot();
+
+        for (const track of tracks) {
+            if (track.ended) continue;
+            const i = track.index;
+            const px = positions[i * 3], py = positions[i * 3 + 1], pz = positions[i * 3 + 2];
+            track.points.set([px, py, pz], track.length * 3);
+            track.length++;
+
+            for (let j = 0; j < bodies.length; j++) {
+                if (j === i || bodies[j].radius === 0) continue;
+                const dx = positions[j * 3] - px, dy = positions[j * 3 + 1] - py, dz = positions[j * 3 + 2] - pz;
+                const distance = Math.sqrt(dx*dx + dy*dy + dz*dz);
+                const contact = bodies[i].radius + bodies[j].radius;
+                if (distance > Math.max(contact * CLOSE_APPROACH_FACTOR, contact + settings.approachDistance)) continue;
+
+                const previous = track.closest.get(j);
+                if (previous && previous.distance <= distance) continue;
+                track.closest.set(j, {
+                    otherId: bodies[j].id,
+                    time,
+                    distance,
+                    position: { x: px, y: py, z: pz },
+                    collision: distance < contact
+                });
+                if (distance < contact) track.ended = true;
+            }
+        }
+        if (tracks.every(track => track.ended)) break;
+    }
+
+    return tracks.map(track => ({
+        id: bodies[track.index].id,
+        points: track.points.slice(0, track.length * 3),
+        encounters: Array.from(track.closest.values()).sort((a, b) => a.time - b.time)
+    }));
+};
@@ -0,0 +1,41 @@
+// --- Seeded Randomness ---
+// Everything random in the simulation (initial bodies, generated systems,
+// spawned ids, impact fragments) draws from generators created here, so a
+// seed reproduces a session exactly.
+
+/** A generator of floats in [0, 1) whose place in its sequence can be saved. */
+export interface Random {
+    (): number;
+    /** Where the generator is in its sequence; resumeRandom carries on from it. */
+    getState: () => number;
+}
+
+/**
+ * Deterministic random number generator (mulberry32) seeded with an FNV-1a
+ * hash of `seed`.
+ */
+export const createRandom = (seed: string): Random => {
+    let state = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+    }
+    return resumeRandom(state);
+};
+
+/** Carries on the sequence of a generator whose getState() returned `state`. */
+export const resumeRandom = (state: number): Random => {
+    const next = () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    return Object.assign(next, { getState: () => state });
+};
+
+/** A short random id from `random`, e.g. for bodies created at runtime. */
+export const randomId = (random: () => number): string =>
+    Math.floor(random() * 36 ** 6).toString(36).padStart(6, '0');
+
+/** A fresh seed for a new session. The one place that is meant to differ between runs. */
+export const createSeed = (): string => Math.random().toString(36).slice(2, 8);
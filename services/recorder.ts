@@ -0,0 +1,118 @@
+import { CelestialBody, Vector3 } from '../types';
+import { SimulationClient } from './simulationClient';
+
+// --- Recording ---
+// Keyframes of the running simulation, so the clock can be rewound to any
+// moment since recording started. Only free bodies' states are copied: rails
+// bodies are placed from their orbits at whatever time the engine is given,
+// and the body list itself is shared with the client until it changes. A
+// rewind restores the keyframe nearest before the moment, random sequence
+// included so impacts shatter the same way again, and steps from there.
+
+const RECORD_INTERVAL = 500; // ms between keyframes
+const MAX_KEYFRAMES = 1200; // Ten minutes of real time
+
+interface Keyframe {
+    time: number;
+    seed: string;
+    randomState?: number;
+    bodies: CelestialBody[];
+    free: Map<string, { position: Vector3, velocity: Vector3 }>;
+}
+
+export interface Recorder {
+    /** Discards any earlier recording and starts keyframing the simulation. */
+    start: () => void;
+    stop: () => void;
+    /** Earliest and latest recorded times, or null before the first keyframe. */
+    getRange: () => { start: number, end: number } | null;
+    /**
+     * Puts the simulation back at `time`, from the latest keyframe at or
+     * before it (or the nearest, for times before the recording), and drops
+     * the keyframes and logged events after that one. False if nothing has
+     * been recorded.
+     */
+    rewindTo: (time: number) => boolean;
+    /** Drops every keyframe, e.g. when another scenario is loaded. */
+    clear: () => void;
+}
+
+export const createRecorder = (simulation: SimulationClient): Recorder => {
+    let keyframes: Keyframe[] = [];
+    let interval: ReturnType<typeof setInterval> | null = null;
+
+    const capture = () => {
+        const time = simulation.getTime();
+        // Nothing new while paused
+        if (keyframes.length > 0 && keyframes[keyframes.length - 1].time === time) return;
+        const bodies = simulation.getBodies();
+        const free = new Map<string, { position: Vector3, velocity: Vector3 }>();
+        for (const body of bodies) {
+            if (body.isLocked) continue;
+            const position = { ...body.position };
+            const velocity = { ...body.velocity };
+            simulation.readPosition(body.id, position);
+            simulation.readVelocity(body.id, velocity);
+            free.set(body.id, { position, velocity });
+        }
+        keyframes.push({ time, seed: simulation.getSeed(), randomState: simulation.getRandomState(), bodies, free });
+        if (keyframes.length > MAX_KEYFRAMES) keyframes.shift();
+    };
+
+    const stop = () => {
+        if (interval !== null) clearInterval(interval);
+        interval = null;
+    };
+
+    const start = () => {
+        stop();
+        keyframes = [];
+        capture();
+        interval = setInterval(capture, RECORD_INTERVAL);
+    };
+
+    const getRange = () => {
+        if (keyframes.length === 0) return null;
+        const times = keyframes.map(k => k.time);
+        return { start: Math.min(...times), end: Math.max(...times) };
+    };
+
+    const rewindTo = (time: number): boolean => {
+        if (keyframes.length === 0) return false;
+        let index = -1;
+        keyframes.forEach((k, i) => {
+            if (k.time <= time && (index < 0 || k.time > keyframes[index].time)) index = i;
+        });
+        if (index < 0) {
+            index = 0;
+            keyframes.forEach((k, i) => {
+                if (Math.abs(k.time - time) < Math.abs(keyframes[index].time - time)) index = i;
+            });
+        }
+
+        const keyframe = keyframes[index];
+        simulation.restore({
+            time: keyframe.time,
+            seed: keyframe.seed,
+            randomState: keyframe.randomState,
+            bodies: keyframe.bodies.map(b => {
+                const state = keyframe.free.get(b.id);
+                return state ? { ...b, position: { ...state.position }, velocity: { ...state.velocity } } : b;
+            })
+        });
+        simulation.seek(time);
+        // What was recorded after it no longer happened, and the events since the keyframe happen again on the way to `time`.
+        // Events from steps the worker had queued before the restore arrive later, and the client drops them
+        keyframes = keyframes.slice(0, index + 1);
+        simulation.discardEventsAfter(keyframe.time);
+        return true;
+    };
+
+    return {
+        start,
+        stop,
+        getRange,
+        rewindTo,
+        clear: () => { keyframes = []; }
+    };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEED } from '../constants';
+import { parseScenario, SCENARIO_VERSION } from './scenario';
+
+const body = { id: 'rock', name: 'Rock', type: 'ASTEROID', mass: 1, radius: 0.5, color: '#888888', position: { x: 1, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 1 } };
+
+describe('parseScenario', () => {
+    it('migrates a bare array of bodies', () => {
+        const scenario = parseScenario(JSON.stringify([body]));
+        expect(scenario.version).toBe(SCENARIO_VERSION);
+        expect(scenario.seed).toBe(DEFAULT_SEED);
+        expect(scenario.bodies.map(b => b.id)).toEqual(['rock']);
+    });
+
+    it('gives version 1 files the default seed', () => {
+        const scenario = parseScenario(JSON.stringify({ version: 1, time: 5, bodies: [body] }));
+        expect(scenario.seed).toBe(DEFAULT_SEED);
+        expect(scenario.time).toBe(5);
+    });
+
+    it('rejects files without a version', () => {
+        expect(() => parseScenario(JSON.stringify({ bodies: [] }))).toThrow(/version/);
+    });
+});
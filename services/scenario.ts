@@ -0,0 +1,244 @@
+import { BodyType, CameraPose, CelestialBody, CollisionMode, GravitySolver, IntegratorId, OrbitalElements, PhysicsSettings, UnitSystem, Vector3 } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS, DEFAULT_SEED, unitSettings } from '../constants';
+
+// --- Scenario Documents ---
+// A scenario is everything needed to pick a simulation back up: the bodies
+// (including rails, parents and painted textures), the clock, the random
+// seed, the physics settings and where the camera was looking.
+
+export const SCENARIO_VERSION = 2;
+
+export const DEFAULT_CAMERA_POSE: CameraPose = {
+    position: { x: 0, y: 80, z: 120 },
+    target: { x: 0, y: 0, z: 0 }
+};
+
+export interface ScenarioDocument {
+    version: number;
+    name: string;
+    savedAt: string; // ISO 8601
+    time: number;
+    seed: string;
+    settings: PhysicsSettings;
+    camera: CameraPose;
+    bodies: CelestialBody[];
+}
+
+export const createScenario = (
+    name: string,
+    state: { time: number, bodies: CelestialBody[], seed: string },
+    settings: PhysicsSettings,
+    camera: CameraPose
+): ScenarioDocument => ({
+    version: SCENARIO_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    time: state.time,
+    seed: state.seed,
+    settings,
+    camera,
+    bodies: state.bodies
+});
+
+export const serializeScenario = (scenario: ScenarioDocument): string => JSON.stringify(scenario, null, 2);
+
+// --- Migrations ---
+// Each entry upgrades a raw document from version `n` to `n + 1`. When the
+// schema changes, bump SCENARIO_VERSION and add the step from the previous
+// version here; validation only ever sees the current version.
+
+// Takes the document at one version, unvalidated, to the next
+type Migration = (doc: unknown) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, Migration> = {
+    // Version 0: a bare array of bodies, as dumped from the console before scenarios existed
+    0: (bodies: unknown) => ({
+        version: 1,
+        name: 'Imported bodies',
+        savedAt: new Date(0).toISOString(),
+        time: 0,
+        settings: DEFAULT_PHYSICS_SETTINGS,
+        camera: DEFAULT_CAMERA_POSE,
+        bodies
+    }),
+    // Version 1 predates seeds; such files get the default one
+    1: (doc) => ({ ...readObject(doc, 'document'), version: 2, seed: DEFAULT_SEED })
+};
+
+const migrate = (raw: unknown): unknown => {
+    let doc: unknown = raw;
+    const declared: unknown = Array.isArray(raw) ? 0 : isObject(raw) ? raw.version : undefined;
+    if (typeof declared !== 'number' || !Number.isInteger(declared)) {
+        throw new Error('Not a scenario file: missing a numeric "version" field.');
+    }
+    let version = declared;
+    if (version > SCENARIO_VERSION) {
+        throw new Error(`This scenario was saved by a newer version of the app (schema v${version}; this build reads up to v${SCENARIO_VERSION}).`);
+    }
+    while (version < SCENARIO_VERSION) {
+        const step = MIGRATIONS[version];
+        if (!step) throw new Error(`Scenario schema v${version} is no longer supported.`);
+        const next = step(doc);
+        doc = next;
+        version = readNumber(next.version, 'version');
+    }
+    return doc;
+};
+
+// --- Validation ---
+
+const fail = (path: string, problem: string): never => {
+    throw new Error(`Invalid scenario: ${path} ${problem}.`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, path: string): Record<string, unknown> =>
+    isObject(value) ? value : fail(path, 'must be an object');
+
+const readNumber = (value: unknown, path: string): number =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'must be a finite number');
+
+const readBoolean = (value: unknown, path: string): boolean =>
+    typeof value === 'boolean' ? value : fail(path, 'must be a boolean');
+
+const readString = (value: unknown, path: string): string =>
+    typeof value === 'string' ? value : fail(path, 'must be a string');
+
+const readOneOf = <T extends string>(value: unknown, options: readonly T[], path: string): T =>
+    options.includes(value as T) ? value as T : fail(path, `must be one of ${options.join(', ')}`);
+
+const readVector = (value: unknown, path: string): Vector3 => {
+    const v = readObject(value, path);
+    return { x: readNumber(v.x, `${path}.x`), y: readNumber(v.y, `${path}.y`), z: readNumber(v.z, `${path}.z`) };
+};
+
+const readElements = (value: unknown, path: string): OrbitalElements => {
+    const e = readObject(value, path);
+    const elements: OrbitalElements = {
+        semiMajorAxis: readNumber(e.semiMajorAxis, `${path}.semiMajorAxis`),
+        eccentricity: readNumber(e.eccentricity, `${path}.eccentricity`),
+        inclination: readNumber(e.inclination, `${path}.inclination`),
+        ascendingNode: readNumber(e.ascendingNode, `${path}.ascendingNode`),
+        periapsis: readNumber(e.periapsis, `${path}.periapsis`),
+        meanAnomalyEpoch: readNumber(e.meanAnomalyEpoch, `${path}.meanAnomalyEpoch`)
+    };
+    if (e.rates !== undefined) {
+        const r = readObject(e.rates, `${path}.rates`);
+        elements.rates = {
+            semiMajorAxis: readNumber(r.semiMajorAxis, `${path}.rates.semiMajorAxis`),
+            eccentricity: readNumber(r.eccentricity, `${path}.rates.eccentricity`),
+            inclination: readNumber(r.inclination, `${path}.rates.inclination`),
+            ascendingNode: readNumber(r.ascendingNode, `${path}.rates.ascendingNode`),
+            periapsis: readNumber(r.periapsis, `${path}.rates.periapsis`),
+            meanMotion: readNumber(r.meanMotion, `${path}.rates.meanMotion`)
+        };
+    }
+    if (elements.eccentricity < 0) fail(`${path}.eccentricity`, 'must not be negative');
+    if (elements.eccentricity > 1 ? elements.semiMajorAxis >= 0 : elements.semiMajorAxis <= 0) {
+        fail(`${path}.semiMajorAxis`, elements.eccentricity > 1 ? 'must be negative for a hyperbolic orbit' : 'must be positive');
+    }
+    return elements;
+};
+
+const BODY_TYPES = Object.values(BodyType);
+
+const readBody = (value: unknown, path: string): CelestialBody => {
+    const b = readObject(value, path);
+    const body: CelestialBody = {
+        id: readString(b.id, `${path}.id`),
+        name: readString(b.name, `${path}.name`),
+        type: readOneOf(b.type, BODY_TYPES, `${path}.type`),
+        mass: readNumber(b.mass, `${path}.mass`),
+        radius: readNumber(b.radius, `${path}.radius`),
+        color: readString(b.color, `${path}.color`),
+        position: readVector(b.position, `${path}.position`),
+        velocity: readVector(b.velocity, `${path}.velocity`),
+        isLocked: b.isLocked === undefined ? false : (typeof b.isLocked === 'boolean' ? b.isLocked : fail(`${path}.isLocked`, 'must be a boolean'))
+    };
+    if (body.id === '') fail(`${path}.id`, 'must not be empty');
+    if (body.mass < 0) fail(`${path}.mass`, 'must not be negative');
+    // Barycenters are points
+    if (body.radius < 0 || (body.radius === 0 && body.type !== BodyType.BARYCENTER)) fail(`${path}.radius`, 'must be positive');
+    if (b.texture !== undefined) {
+        body.texture = readString(b.texture, `${path}.texture`);
+        if (!/^(data:image\/|https?:)/.test(body.texture)) fail(`${path}.texture`, 'must be an image data URL or http(s) URL');
+    }
+    if (b.orbitalElements !== undefined) body.orbitalElements = readElements(b.orbitalElements, `${path}.orbitalElements`);
+    if (b.description !== undefined) body.description = readString(b.description, `${path}.description`);
+    if (b.parentId !== undefined) body.parentId = readString(b.parentId, `${path}.parentId`);
+    return body;
+};
+
+const readSettings = (value: unknown, path: string): PhysicsSettings => {
+    // Missing fields fall back to the defaults, so settings added later don't invalidate old files
+    const raw = readObject(value, path);
+    const units = readOneOf<UnitSystem>(raw.units ?? DEFAULT_PHYSICS_SETTINGS.units, ['simulation', 'astronomical'], `${path}.units`);
+    const s = { ...DEFAULT_PHYSICS_SETTINGS, ...unitSettings(units), ...raw };
+    const settings: PhysicsSettings = {
+        solver: readOneOf<GravitySolver>(s.solver, ['direct', 'barnes-hut'], `${path}.solver`),
+        theta: readNumber(s.theta, `${path}.theta`),
+        integrator: readOneOf<IntegratorId>(s.integrator, ['verlet', 'rk4', 'rkf45'], `${path}.integrator`),
+        tolerance: readNumber(s.tolerance, `${path}.tolerance`),
+        collisionMode: readOneOf<CollisionMode>(s.collisionMode, ['none', 'merge', 'bounce', 'fragment'], `${path}.collisionMode`),
+        restitution: readNumber(s.restitution, `${path}.restitution`),
+        unlockOnImpact: readBoolean(s.unlockOnImpact, `${path}.unlockOnImpact`),
+        units,
+        G: readNumber(s.G, `${path}.G`),
+        timeStep: readNumber(s.timeStep, `${path}.timeStep`),
+        softening: readNumber(s.softening, `${path}.softening`),
+        railsGravity: readBoolean(s.railsGravity, `${path}.railsGravity`),
+        mutualGravity: readBoolean(s.mutualGravity, `${path}.mutualGravity`),
+        localFrames: readBoolean(s.localFrames, `${path}.localFrames`),
+        soiReparenting: readBoolean(s.soiReparenting, `${path}.soiReparenting`),
+        detectEvents: readBoolean(s.detectEvents, `${path}.detectEvents`),
+        approachDistance: readNumber(s.approachDistance, `${path}.approachDistance`)
+    };
+    if (settings.theta < 0) fail(`${path}.theta`, 'must not be negative');
+    if (settings.tolerance <= 0) fail(`${path}.tolerance`, 'must be positive');
+    if (settings.G <= 0) fail(`${path}.G`, 'must be positive');
+    if (settings.timeStep <= 0) fail(`${path}.timeStep`, 'must be positive');
+    if (settings.softening < 0) fail(`${path}.softening`, 'must not be negative');
+    if (settings.approachDistance < 0) fail(`${path}.approachDistance`, 'must not be negative');
+    return settings;
+};
+
+/**
+ * Parses, migrates and validates a scenario file. Throws an Error whose
+ * message names the offending field when the file is malformed.
+ */
+export const parseScenario = (text: string): ScenarioDocument => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`Not a scenario file: ${(e as Error).message}`);
+    }
+
+    const doc = readObject(migrate(raw), 'document');
+    if (!Array.isArray(doc.bodies)) fail('bodies', 'must be an array');
+    const bodies = (doc.bodies as unknown[]).map((b, i) => readBody(b, `bodies[${i}]`));
+
+    const ids = new Set<string>();
+    bodies.forEach((body, i) => {
+        if (ids.has(body.id)) fail(`bodies[${i}].id`, `duplicates "${body.id}"`);
+        ids.add(body.id);
+    });
+    bodies.forEach((body, i) => {
+        if (body.parentId !== undefined && !ids.has(body.parentId)) fail(`bodies[${i}].parentId`, `refers to unknown body "${body.parentId}"`);
+    });
+
+    const camera = readObject(doc.camera ?? DEFAULT_CAMERA_POSE, 'camera');
+
+    return {
+        version: SCENARIO_VERSION,
+        name: doc.name === undefined ? 'Untitled scenario' : readString(doc.name, 'name'),
+        savedAt: doc.savedAt === undefined ? new Date(0).toISOString() : readString(doc.savedAt, 'savedAt'),
+        time: readNumber(doc.time, 'time'),
+        seed: readString(doc.seed, 'seed'),
+        settings: readSettings(doc.settings ?? {}, 'settings'),
+        camera: { position: readVector(camera.position, 'camera.position'), target: readVector(camera.target, 'camera.target') },
+        bodies
+    };
+};
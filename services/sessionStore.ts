@@ -0,0 +1,179 @@
+import { ChatMessage } from '../types';
+import { ScenarioDocument } from './scenario';
+
+// --- Local Session Storage (IndexedDB) ---
+// Sessions are scenarios plus chat history. Textures are pulled out of the
+// bodies and stored once each as Blobs keyed by content hash, so autosaving
+// every few seconds doesn't rewrite megabytes of base64 per painted planet.
+
+const DB_NAME = 'cosmos-architect';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const TEXTURES = 'textures';
+const TEXTURE_REF_PREFIX = 'idb-texture:';
+
+/** Id of the rolling autosave; named snapshots get generated ids. */
+export const AUTOSAVE_ID = 'autosave';
+
+export interface StoredSession {
+    scenario: ScenarioDocument;
+    chatMessages: ChatMessage[];
+}
+
+export interface SessionSummary {
+    id: string;
+    name: string;
+    savedAt: string;
+    bodyCount: number;
+}
+
+interface SessionRecord extends SessionSummary, StoredSession {}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(TEXTURES)) db.createObjectStore(TEXTURES);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// --- Texture Blobs ---
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const hashText = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Replaces every data URL texture with a reference to a blob, returning the
+ * slimmed-down scenario and the blobs that need writing.
+ */
+const extractTextures = async (scenario: ScenarioDocument): Promise<{ scenario: ScenarioDocument, blobs: Map<string, Blob> }> => {
+    const blobs = new Map<string, Blob>();
+    const bodies = await Promise.all(scenario.bodies.map(async body => {
+        if (!body.texture?.startsWith('data:')) return body;
+        const key = await hashText(body.texture);
+        if (!blobs.has(key)) blobs.set(key, await dataUrlToBlob(body.texture));
+        return { ...body, texture: TEXTURE_REF_PREFIX + key };
+    }));
+    return { scenario: { ...scenario, bodies }, blobs };
+};
+
+const restoreTextures = async (db: IDBDatabase, scenario: ScenarioDocument): Promise<ScenarioDocument> => {
+    const bodies = await Promise.all(scenario.bodies.map(async body => {
+        if (!body.texture?.startsWith(TEXTURE_REF_PREFIX)) return body;
+        const key = body.texture.slice(TEXTURE_REF_PREFIX.length);
+        const blob = await promisify<Blob | undefined>(db.transaction(TEXTURES).objectStore(TEXTURES).get(key));
+        // A missing blob only loses the paint job, not the session
+        return { ...body, texture: blob ? await blobToDataUrl(blob) : undefined };
+    }));
+    return { ...scenario, bodies };
+};
+
+/** Deletes texture blobs that no stored session refers to any more. */
+const collectGarbage = async (db: IDBDatabase) => {
+    const tx = db.transaction([SESSIONS, TEXTURES], 'readwrite');
+    const sessions = await promisify<SessionRecord[]>(tx.objectStore(SESSIONS).getAll());
+    const keys = await promisify(tx.objectStore(TEXTURES).getAllKeys());
+
+    const referenced = new Set<string>();
+    sessions.forEach(session => session.scenario.bodies.forEach(body => {
+        if (body.texture?.startsWith(TEXTURE_REF_PREFIX)) referenced.add(body.texture.slice(TEXTURE_REF_PREFIX.length));
+    }));
+    keys.forEach(key => {
+        if (!referenced.has(key as string)) tx.objectStore(TEXTURES).delete(key);
+    });
+    await transactionDone(tx);
+};
+
+// --- Public API ---
+
+/** Writes (or overwrites) a session. Use AUTOSAVE_ID for the rolling autosave. */
+export const saveSession = async (id: string, name: string, session: StoredSession): Promise<void> => {
+    const db = await openDatabase();
+    // Blob conversion is async, so it has to finish before the transaction opens
+    const { scenario, blobs } = await extractTextures(session.scenario);
+
+    const tx = db.transaction([SESSIONS, TEXTURES], 'readwrite');
+    blobs.forEach((blob, key) => tx.objectStore(TEXTURES).put(blob, key));
+    const record: SessionRecord = {
+        id,
+        name,
+        savedAt: scenario.savedAt,
+        bodyCount: scenario.bodies.length,
+        scenario,
+        chatMessages: session.chatMessages
+    };
+    tx.objectStore(SESSIONS).put(record);
+    await transactionDone(tx);
+    await collectGarbage(db);
+};
+
+/** Reads a session with its textures turned back into data URLs, or null if there is none. */
+export const loadSession = async (id: string): Promise<StoredSession | null> => {
+    const db = await openDatabase();
+    const record = await promisify<SessionRecord | undefined>(db.transaction(SESSIONS).objectStore(SESSIONS).get(id));
+    if (!record) return null;
+    return {
+        scenario: await restoreTextures(db, record.scenario),
+        chatMessages: record.chatMessages
+    };
+};
+
+/** Summaries of every stored session except the autosave, newest first. */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDatabase();
+    const records = await promisify<SessionRecord[]>(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+    return records
+        .filter(record => record.id !== AUTOSAVE_ID)
+        .map(({ id, name, savedAt, bodyCount }) => ({ id, name, savedAt, bodyCount }))
+        .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+/** Summary of the autosave, if one exists. */
+export const getAutosaveSummary = async (): Promise<SessionSummary | null> => {
+    const db = await openDatabase();
+    const record = await promisify<SessionRecord | undefined>(db.transaction(SESSIONS).objectStore(SESSIONS).get(AUTOSAVE_ID));
+    return record ? { id: record.id, name: record.name, savedAt: record.savedAt, bodyCount: record.bodyCount } : null;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS, 'readwrite');
+    tx.objectStore(SESSIONS).delete(id);
+    await transactionDone(tx);
+    await collectGarbage(db);
+};
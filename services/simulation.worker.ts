@@ -0,0 +1,86 @@
+import { createSimulationEngine, SimulationEngine } from './simulationEngine';
+import { SimulationRequest, SimulationResponse } from './simulationMessages';
+import { predictTrajectories } from './prediction';
+
+// Runs the simulation engine off the main thread. Every request is answered
+// with a snapshot whose buffers are transferred back to the render layer,
+// preceded by the full body list whenever its revision changed.
+
+let engine: SimulationEngine | null = null;
+let sentRevision = -1;
+let diagnosticsEnabled = false;
+let generation = 0;
+
+const post = (message: SimulationResponse, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+};
+
+const publish = () => {
+    if (!engine) return;
+
+    if (engine.getRevision() !== sentRevision) {
+        const state = engine.getState();
+        sentRevision = engine.getRevision();
+        post({ type: 'bodies', revision: sentRevision, bodies: state.bodies });
+    }
+
+    const events = engine.drainEvents();
+    if (events.length > 0) post({ type: 'events', generation, events });
+
+    const snapshot = engine.getSnapshot();
+    const diagnostics = diagnosticsEnabled ? engine.getDiagnostics() : undefined;
+    post(
+        { type: 'snapshot', ...snapshot, diagnostics },
+        [snapshot.positions.buffer, snapshot.velocities.buffer]
+    );
+};
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'init') {
+        engine = createSimulationEngine(request.bodies, request.settings, request.seed);
+        generation = request.generation;
+        // A restarted worker carries on where the last one stopped, rails bodies included
+        if (request.resume) engine.restore(request.resume);
+        sentRevision = -1;
+        publish();
+        return;
+    }
+    if (!engine) return;
+
+    switch (request.type) {
+        case 'step': engine.step(request.dt); break;
+        case 'seek': engine.seek(request.time); break;
+        case 'reset':
+            engine.reset();
+            generation = request.generation;
+            break;
+        case 'restore':
+            engine.restore({ time: request.time, bodies: request.bodies, seed: request.seed, randomState: request.randomState });
+            generation = request.generation;
+            break;
+        case 'addBody': engine.addBody(request.body); break;
+        case 'removeBody': engine.removeBody(request.id); break;
+        case 'addBodies': engine.addBodies(request.bodies); break;
+        case 'removeBodies': engine.removeBodies(request.ids); break;
+        case 'updateBody': engine.updateBody(request.id, request.patch); break;
+        case 'releaseBody': engine.releaseBody(request.id); break;
+        case 'lockBody': engine.lockBody(request.id, request.parentId); break;
+        case 'reparentBody': engine.reparentBody(request.id, request.parentId); break;
+        case 'updateSettings': engine.updateSettings(request.patch); break;
+        case 'setDiagnostics': diagnosticsEnabled = request.enabled; break;
+        case 'predict': {
+            const predictions = predictTrajectories(engine.getState(), engine.getSettings(), request.targets, request.extraBody);
+            post(
+                { type: 'prediction', requestId: request.requestId, predictions },
+                predictions.map(p => p.points.buffer)
+            );
+            break;
+        }
+        case 'compareSolvers':
+            post({ type: 'solverComparison', requestId: request.requestId, comparison: engine.compareSolvers() });
+            break;
+    }
+    publish();
+};
@@ -0,0 +1,312 @@
+import { CelestialBody, PhysicsSettings, SimulationEvent, Vector3 } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS } from '../constants';
+import { SimulationRequest, SimulationResponse } from './simulationMessages';
+import { TrajectoryPrediction } from './prediction';
+import { SimulationState } from './simulationEngine';
+import { ConservedQuantities } from './diagnostics';
+import { SolverComparison } from './barnesHut';
+
+/**
+ * Main-thread handle on the simulation running in a Web Worker.
+ * The render loop reads positions straight from the latest transferred
+ * snapshot; React only hears about changes to the body list itself.
+ */
+export interface SimulationClient {
+    /** Spawns the worker (if not running) and seeds it with the current bodies. */
+    start: () => void;
+    /** Terminates the worker. The last known state is kept so start() can resume it. */
+    dispose: () => void;
+    /** Requests a step of dt. Steps requested while the worker is busy are merged into the next one. */
+    step: (dt: number) => void;
+    /** Jumps to an absolute simulation time, discarding any steps not yet sent. */
+    seek: (time: number) => void;
+    /** Goes back to the bodies, seed and clock the client was created with, forgetting the event log. */
+    reset: () => void;
+    /** Replaces every body and sets the clock and seed, discarding any steps not yet sent and the events of those already sent. */
+    restore: (state: SimulationState) => void;
+    /** The body list with the latest positions and velocities, plus the current time and seed. */
+    getState: () => SimulationState;
+    getSeed: () => string;
+    /** Where the engine's random sequence was as of the latest snapshot (see Random.getState). */
+    getRandomState: () => number | undefined;
+    addBody: (body: CelestialBody) => void;
+    removeBody: (id: string) => void;
+    /** Adds or removes many bodies in one request; unlike restore(), the clock, queued steps and seed are left alone. */
+    addBodies: (bodies: CelestialBody[]) => void;
+    removeBodies: (ids: string[]) => void;
+    updateBody: (id: string, patch: Partial<CelestialBody>) => void;
+    /** Switches a body from Keplerian rails to N-body integration. */
+    releaseBody: (id: string) => void;
+    /** Switches a free body onto Keplerian rails around `parentId`, fitted to its current state. */
+    lockBody: (id: string, parentId: string) => void;
+    /** Moves a body to another parent (or none), refitting its rails so it stays where it is. */
+    reparentBody: (id: string, parentId: string | undefined) => void;
+    getSettings: () => PhysicsSettings;
+    updateSettings: (patch: Partial<PhysicsSettings>) => void;
+    getBodies: () => CelestialBody[];
+    getTime: () => number;
+    /** Smallest integrator sub-step used for the latest snapshot. */
+    getStepSize: () => number;
+    /** Asks the worker to compute the conserved quantities with every snapshot (or stop). */
+    setDiagnosticsEnabled: (enabled: boolean) => void;
+    /** Conserved quantities as of the latest snapshot, or null while diagnostics are off. */
+    getDiagnostics: () => ConservedQuantities | null;
+    /** Copies the latest position of a body into `out`. Returns false for unknown ids. */
+    readPosition: (id: string, out: Vector3) => boolean;
+    /** Copies the latest velocity of a body into `out`. Returns false for unknown ids. */
+    readVelocity: (id: string, out: Vector3) => boolean;
+    /** Registers a listener for body list changes. Returns an unsubscribe function. */
+    subscribe: (listener: (bodies: CelestialBody[]) => void) => () => void;
+    /**
+     * Predicts the future paths of the given bodies (plus `extraBody`, which
+     * is not added to the simulation) without affecting it.
+     */
+    predict: (targets: string[], extraBody?: CelestialBody) => Promise<TrajectoryPrediction[]>;
+    /** Measures Barnes–Hut at the current θ against direct summation. Null if the worker is not running. */
+    compareSolvers: () => Promise<SolverComparison | null>;
+    /** The most recent events reported by the worker, oldest first. */
+    getEvents: () => SimulationEvent[];
+    /** Registers a listener for new events. Returns an unsubscribe function. */
+    subscribeEvents: (listener: (events: SimulationEvent[]) => void) => () => void;
+    /** Forgets the events logged after `time`, once the clock has been rewound past them. */
+    discardEventsAfter: (time: number) => void;
+}
+
+const MAX_EVENT_LOG = 500;
+
+interface Snapshot {
+    revision: number;
+    time: number;
+    stepSize: number;
+    randomState: number;
+    positions: Float64Array;
+    velocities: Float64Array;
+    diagnostics?: ConservedQuantities;
+}
+
+export const createSimulationClient = (initialBodies: CelestialBody[], initialSeed: string): SimulationClient => {
+    let worker: Worker | null = null;
+    let bodies = initialBodies;
+    let seed = initialSeed;
+    let settings: PhysicsSettings = { ...DEFAULT_PHYSICS_SETTINGS };
+    let revision = -1;
+    let indexById = new Map<string, number>();
+    let snapshot: Snapshot | null = null;
+    // State the next worker starts from; set when one is disposed so start() resumes it
+    let resume: SimulationState | undefined;
+    let inFlight = 0;
+    let pendingDt = 0;
+    const listeners = new Set<(bodies: CelestialBody[]) => void>();
+    let events: SimulationEvent[] = [];
+    // Counts restores and resets, so events from steps still queued before the latest one are dropped when they arrive
+    let generation = 0;
+    const eventListeners = new Set<(events: SimulationEvent[]) => void>();
+    let diagnosticsEnabled = false;
+    let requestCounter = 0;
+    const pendingPredictions = new Map<number, (predictions: TrajectoryPrediction[]) => void>();
+    const pendingComparisons = new Map<number, (comparison: SolverComparison | null) => void>();
+
+    const send = (request: SimulationRequest) => {
+        if (!worker) return;
+        inFlight++;
+        worker.postMessage(request);
+    };
+
+    const flushStep = () => {
+        if (inFlight > 0 || pendingDt === 0) return;
+        const dt = pendingDt;
+        pendingDt = 0;
+        send({ type: 'step', dt });
+    };
+
+    const readVector = (source: 'positions' | 'velocities', id: string, out: Vector3): boolean => {
+        const index = indexById.get(id);
+        if (index === undefined) return false;
+
+        if (snapshot && snapshot.revision === revision) {
+            const buffer = snapshot[source];
+            out.x = buffer[index * 3];
+            out.y = buffer[index * 3 + 1];
+            out.z = buffer[index * 3 + 2];
+        } else {
+            const v = source === 'positions' ? bodies[index].position : bodies[index].velocity;
+            out.x = v.x;
+            out.y = v.y;
+            out.z = v.z;
+        }
+        return true;
+    };
+
+    /** The body list with positions and velocities from the latest snapshot. */
+    const getCurrentBodies = (): CelestialBody[] => bodies.map(b => {
+        const position = { ...b.position };
+        const velocity = { ...b.velocity };
+        readVector('positions', b.id, position);
+        readVector('velocities', b.id, velocity);
+        return { ...b, position, velocity };
+    });
+
+    const setBodyList = (next: CelestialBody[], nextRevision: number) => {
+        bodies = next;
+        revision = nextRevision;
+        indexById = new Map(next.map((b, i) => [b.id, i]));
+        listeners.forEach(listener => listener(bodies));
+    };
+
+    const handleMessage = (event: MessageEvent<SimulationResponse>) => {
+        const message = event.data;
+        if (message.type === 'bodies') {
+            setBodyList(message.bodies, message.revision);
+            return;
+        }
+        if (message.type === 'prediction') {
+            pendingPredictions.get(message.requestId)?.(message.predictions);
+            pendingPredictions.delete(message.requestId);
+            return;
+        }
+        if (message.type === 'solverComparison') {
+            pendingComparisons.get(message.requestId)?.(message.comparison);
+            pendingComparisons.delete(message.requestId);
+            return;
+        }
+        if (message.type === 'events') {
+            if (message.generation !== generation) return;
+            events = [...events, ...message.events].slice(-MAX_EVENT_LOG);
+            eventListeners.forEach(listener => listener(events));
+            return;
+        }
+        snapshot = message;
+        inFlight = Math.max(0, inFlight - 1);
+        flushStep();
+    };
+
+    const start = () => {
+        if (worker) return;
+        worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = handleMessage;
+        inFlight = 0;
+        send({ type: 'init', bodies: initialBodies, settings, seed: initialSeed, generation, resume });
+        if (diagnosticsEnabled) send({ type: 'setDiagnostics', enabled: true });
+    };
+
+    const dispose = () => {
+        if (!worker) return;
+        bodies = getCurrentBodies();
+        resume = { time: snapshot?.time ?? resume?.time ?? 0, bodies, seed, randomState: snapshot?.randomState ?? resume?.randomState };
+        worker.terminate();
+        worker = null;
+        pendingPredictions.forEach(resolve => resolve([]));
+        pendingPredictions.clear();
+        pendingComparisons.forEach(resolve => resolve(null));
+        pendingComparisons.clear();
+        inFlight = 0;
+        pendingDt = 0;
+    };
+
+    const step = (dt: number) => {
+        pendingDt += dt;
+        flushStep();
+    };
+
+    const seek = (time: number) => {
+        pendingDt = 0;
+        send({ type: 'seek', time });
+    };
+
+    const restore = (state: SimulationState) => {
+        pendingDt = 0;
+        seed = state.seed;
+        generation++;
+        send({ type: 'restore', time: state.time, bodies: state.bodies, seed: state.seed, randomState: state.randomState, generation });
+    };
+
+    const reset = () => {
+        pendingDt = 0;
+        seed = initialSeed;
+        generation++;
+        events = [];
+        eventListeners.forEach(listener => listener(events));
+        send({ type: 'reset', generation });
+    };
+
+    const updateSettings = (patch: Partial<PhysicsSettings>) => {
+        settings = { ...settings, ...patch };
+        send({ type: 'updateSettings', patch });
+    };
+
+    const setDiagnosticsEnabled = (enabled: boolean) => {
+        diagnosticsEnabled = enabled;
+        send({ type: 'setDiagnostics', enabled });
+    };
+
+    const predict = (targets: string[], extraBody?: CelestialBody): Promise<TrajectoryPrediction[]> => {
+        if (!worker) return Promise.resolve([]);
+        const requestId = ++requestCounter;
+        return new Promise(resolve => {
+            pendingPredictions.set(requestId, resolve);
+            send({ type: 'predict', requestId, targets, extraBody });
+        });
+    };
+
+    const compareSolvers = (): Promise<SolverComparison | null> => {
+        if (!worker) return Promise.resolve(null);
+        const requestId = ++requestCounter;
+        return new Promise(resolve => {
+            pendingComparisons.set(requestId, resolve);
+            send({ type: 'compareSolvers', requestId });
+        });
+    };
+
+    const subscribe = (listener: (bodies: CelestialBody[]) => void) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+    };
+
+    const subscribeEvents = (listener: (events: SimulationEvent[]) => void) => {
+        eventListeners.add(listener);
+        return () => { eventListeners.delete(listener); };
+    };
+
+    const discardEventsAfter = (time: number) => {
+        events = events.filter(event => event.time <= time);
+        eventListeners.forEach(listener => listener(events));
+    };
+
+    indexById = new Map(bodies.map((b, i) => [b.id, i]));
+
+    return {
+        start,
+        dispose,
+        step,
+        seek,
+        reset,
+        restore,
+        getState: () => ({ time: snapshot?.time ?? 0, bodies: getCurrentBodies(), seed, randomState: snapshot?.randomState }),
+        getSeed: () => seed,
+        getRandomState: () => snapshot?.randomState,
+        addBody: (body) => send({ type: 'addBody', body }),
+        removeBody: (id) => send({ type: 'removeBody', id }),
+        addBodies: (bodies) => send({ type: 'addBodies', bodies }),
+        removeBodies: (ids) => send({ type: 'removeBodies', ids }),
+        updateBody: (id, patch) => send({ type: 'updateBody', id, patch }),
+        releaseBody: (id) => send({ type: 'releaseBody', id }),
+        lockBody: (id, parentId) => send({ type: 'lockBody', id, parentId }),
+        reparentBody: (id, parentId) => send({ type: 'reparentBody', id, parentId }),
+        getSettings: () => settings,
+        updateSettings,
+        getBodies: () => bodies,
+        getTime: () => snapshot?.time ?? 0,
+        getStepSize: () => snapshot?.stepSize ?? 0,
+        setDiagnosticsEnabled,
+        // Totals from before the latest body list change would be measured against the wrong bodies
+        getDiagnostics: () => diagnosticsEnabled && snapshot?.revision === revision ? snapshot.diagnostics ?? null : null,
+        readPosition: (id, out) => readVector('positions', id, out),
+        readVelocity: (id, out) => readVector('velocities', id, out),
+        subscribe,
+        predict,
+        compareSolvers,
+        getEvents: () => events,
+        subscribeEvents,
+        discardEventsAfter
+    };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { BodyType, CelestialBody } from '../types';
+import { createSimulationEngine } from './simulationEngine';
+
+const G = 0.5;
+const STAR_MASS = 1000;
+const RADIUS = 10;
+
+const star: CelestialBody = {
+    id: 'star',
+    name: 'Star',
+    type: BodyType.STAR,
+    mass: STAR_MASS,
+    radius: 1,
+    color: '#ffffff',
+    position: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    isLocked: true
+};
+
+// A light free body on a circular orbit around the fixed star
+const planet: CelestialBody = {
+    id: 'planet',
+    name: 'Planet',
+    type: BodyType.PLANET,
+    mass: 1e-6,
+    radius: 0.1,
+    color: '#3b82f6',
+    position: { x: RADIUS, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: -Math.sqrt(G * STAR_MASS / RADIUS) },
+    parentId: 'star'
+};
+
+const period = 2 * Math.PI * Math.sqrt(RADIUS ** 3 / (G * STAR_MASS));
+
+describe('createSimulationEngine', () => {
+    it('brings a free body on a circular orbit back to its start after one period', () => {
+        const engine = createSimulationEngine([star, planet], { G, softening: 0, integrator: 'rk4', timeStep: 0.01 });
+        const steps = 200;
+        for (let i = 0; i < steps; i++) engine.step(period / steps);
+
+        const { time, bodies } = engine.getState();
+        const { position } = bodies.find(b => b.id === 'planet')!;
+        expect(time).toBeCloseTo(period, 9);
+        expect(Math.hypot(position.x - RADIUS, position.y, position.z)).toBeLessThan(1e-3 * RADIUS);
+    });
+
+    it('keeps the orbital radius constant along the way', () => {
+        const engine = createSimulationEngine([star, planet], { G, softening: 0, integrator: 'verlet', timeStep: 0.01 });
+        for (let i = 0; i < 100; i++) {
+            engine.step(period / 100);
+            const { position } = engine.getState().bodies.find(b => b.id === 'planet')!;
+            expect(Math.hypot(position.x, position.y, position.z)).toBeCloseTo(RADIUS, 2);
+        }
+    });
+
+    it('hands the moons of a deleted body to its parent without moving them', () => {
+        const orbit = (semiMajorAxis: number) => ({ semiMajorAxis, eccentricity: 0, inclination: 0, ascendingNode: 0, periapsis: 0, meanAnomalyEpoch: 0 });
+        const world: CelestialBody = { ...planet, mass: 1, isLocked: true, orbitalElements: orbit(RADIUS) };
+        const moon: CelestialBody = { ...planet, id: 'moon', name: 'Moon', position: { x: 0, y: 0, z: 0 }, isLocked: true, parentId: 'planet', orbitalElements: orbit(0.5) };
+        const engine = createSimulationEngine([star, world, moon], { G, softening: 0 });
+        engine.step(1);
+        const before = engine.getState().bodies.find(b => b.id === 'moon')!;
+
+        engine.removeBody('planet');
+        const after = engine.getState().bodies.find(b => b.id === 'moon')!;
+        expect(after.parentId).toBe('star');
+        expect(after.isLocked).toBe(true);
+        expect(Math.hypot(after.position.x - before.position.x, after.position.y - before.position.y, after.position.z - before.position.z)).toBeLessThan(1e-9);
+    });
+
+    it('notices a fast body crossing a sphere of influence within a single warped step', () => {
+        // A planet with a sphere of influence some 8 across, and a body flying past 3 above it at t = 1
+        const world: CelestialBody = {
+            ...planet,
+            mass: 10,
+            radius: 1,
+            isLocked: true,
+            orbitalElements: { semiMajorAxis: 50, eccentricity: 0, inclination: 0, ascendingNode: 0, periapsis: 0, meanAnomalyEpoch: 0 }
+        };
+        const rock: CelestialBody = { ...planet, id: 'rock', name: 'Rock', position: { x: 10, y: 3, z: -Math.sqrt(G * STAR_MASS / 50) }, velocity: { x: 40, y: 0, z: 0 } };
+        const engine = createSimulationEngine([star, world, rock], { G, softening: 0, timeStep: 0.01, collisionMode: 'none', detectEvents: false });
+        engine.drainEvents();
+
+        engine.step(2);
+        const messages = engine.drainEvents().filter(e => e.type === 'soi').map(e => e.message);
+        expect(messages).toEqual([
+            'Rock entered the sphere of influence of Planet.',
+            'Rock left the sphere of influence of Planet and now orbits Star.'
+        ]);
+    });
+
+    it('runs backwards to where it started', () => {
+        const engine = createSimulationEngine([star, planet], { G, softening: 0, integrator: 'rk4', timeStep: 0.01 });
+        engine.seek(period / 3);
+        engine.seek(0);
+        const { position } = engine.getState().bodies.find(b => b.id === 'planet')!;
+        expect(position.x).toBeCloseTo(RADIUS, 6);
+        expect(position.z).toBeCloseTo(0, 6);
+    });
+});
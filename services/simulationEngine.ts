@@ -0,0 +1,680 @@
+import { CelestialBody, PhysicsSettings, SimulationEvent } from '../types';
+import { DEFAULT_PHYSICS_SETTINGS, DEFAULT_SEED, G_CONSTANT } from '../constants';
+import { calculateOrbitalElements, calculateOrbitalState, keplerianMeanMotion } from './orbitalMechanics';
+import { BodyArrays, computeAccelerations, createBodyArrays, orbitMass } from './gravity';
+import { AccelerationFn, INTEGRATORS } from './integrators';
+import { findCollisions, resolveCollision } from './collisions';
+import { createRandom, resumeRandom } from './random';
+import { computeConservedQuantities, ConservedQuantities } from './diagnostics';
+import { compareWithDirectSummation, SolverComparison } from './barnesHut';
+import { findDominantBody, mapInfluence, orbitsWithin, shortestCrossingTime } from './sphereOfInfluence';
+import { createEventDetector } from './eventDetection';
+
+export interface SimulationState {
+    time: number;
+    bodies: CelestialBody[];
+    /** Seeds everything left to chance during the run, such as how impacts shatter. */
+    seed: string;
+    /** Where the random sequence had got to (see Random.getState). Without it, restore() starts one from the seed and time. */
+    randomState?: number;
+}
+
+/**
+ * Positions and velocities of every body, packed as [x0, y0, z0, x1, ...]
+ * in the same order as the body list of the matching revision.
+ */
+export interface SimulationSnapshot {
+    revision: number;
+    time: number;
+    stepSize: number;
+    randomState: number;
+    positions: Float64Array;
+    velocities: Float64Array;
+}
+
+export type SimulationListener = () => void;
+
+/**
+ * Headless N-body + Keplerian simulation. Owns the body state and has no
+ * dependency on React or WebGL, so it can be stepped from a render loop,
+ * a Web Worker, a script or a unit test alike.
+ */
+export interface SimulationEngine {
+    /**
+     * Advances the simulation by dt time units (negative runs it backwards),
+     * sub-stepping at the settings' time step or finer if the adaptive integrator needs to.
+     */
+    step: (dt: number) => void;
+    /** Steps forwards or backwards to an absolute time. Instant when every body is on rails. */
+    seek: (time: number) => void;
+    /** Magnitude of the smallest sub-step taken during the last step() call. */
+    getStepSize: () => number;
+    /** Energy, momentum and angular momentum of the free bodies right now, for checking how well they are conserved. */
+    getDiagnostics: () => ConservedQuantities;
+    /** How far Barnes–Hut at the current θ is from direct summation on the current state. */
+    compareSolvers: () => SolverComparison;
+    /** Returns a copy of the current state that callers may keep or mutate. */
+    getState: () => SimulationState;
+    /** Returns a copy of the packed position/velocity buffers, suitable for transfer. */
+    getSnapshot: () => SimulationSnapshot;
+    /** Incremented whenever bodies are added, removed or edited. */
+    getRevision: () => number;
+    /** Restores the bodies and seed the engine was created with and rewinds time to 0. */
+    reset: () => void;
+    getSettings: () => PhysicsSettings;
+    /** Applies new physics settings from the next step on. */
+    updateSettings: (patch: Partial<PhysicsSettings>) => void;
+    /** Replaces every body, keeping the current time. */
+    setBodies: (bodies: CelestialBody[]) => void;
+    /** Replaces every body and sets the clock and seed, e.g. when loading a saved scenario. */
+    restore: (state: SimulationState) => void;
+    addBody: (body: CelestialBody) => void;
+    /** Removes a body, handing its children to its own parent (see adoptOrphans). */
+    removeBody: (id: string) => void;
+    /** Adds or removes many bodies with a single rebuild, leaving the clock and random sequence alone. */
+    addBodies: (bodies: CelestialBody[]) => void;
+    removeBodies: (ids: string[]) => void;
+    updateBody: (id: string, patch: Partial<CelestialBody>) => void;
+    /** Takes a locked body off its rails, continuing from its current orbital position and velocity. */
+    releaseBody: (id: string) => void;
+    /**
+     * Fits osculating orbital elements to a free body's state relative to
+     * `parentId` and puts it on rails. Records a 'rails' event either way.
+     */
+    lockBody: (id: string, parentId: string) => void;
+    /**
+     * Moves a body to another parent (or none) without moving it: a body on
+     * rails gets elements refitted around the new parent from its current
+     * position and velocity. Records a 'rails' event if that is impossible.
+     */
+    reparentBody: (id: string, parentId: string | undefined) => void;
+    /** Returns the events (impacts, ...) recorded since the last call, oldest first. */
+    drainEvents: () => SimulationEvent[];
+    /** Registers a listener called after every change. Returns an unsubscribe function. */
+    subscribe: (listener: SimulationListener) => () => void;
+}
+
+const DEFAULT_PARENT_MASS = 1000;
+const SOI_CHECK_INTERVAL = 10; // Largest time between sphere of influence checks, which fit an orbit to every body, in time steps
+
+const cloneBody = (body: CelestialBody): CelestialBody => ({
+    ...body,
+    position: { ...body.position },
+    velocity: { ...body.velocity }
+});
+
+/**
+ * Places every locked body on its Keplerian orbit at the given time, in place,
+ * writing both its world position and its world velocity (orbital velocity
+ * plus that of its parent). Parents are placed before their children, and a
+ * free parent is taken wherever the integrator has it.
+ */
+export const propagateRails = (arrays: BodyArrays, time: number, G = G_CONSTANT): void => {
+    const { positions, velocities, orbitMasses, locked, parents, elements, order } = arrays;
+
+    for (const i of order) {
+        const orbit = elements[i];
+        if (!locked[i] || !orbit) continue;
+
+        const parent = parents[i];
+        const parentMass = parent >= 0 ? orbitMasses[i] : DEFAULT_PARENT_MASS;
+        const { position, velocity } = calculateOrbitalState(orbit, time, parentMass, G);
+
+        positions[i * 3] = (parent >= 0 ? positions[parent * 3] : 0) + position.x;
+        positions[i * 3 + 1] = (parent >= 0 ? positions[parent * 3 + 1] : 0) + position.y;
+        positions[i * 3 + 2] = (parent >= 0 ? positions[parent * 3 + 2] : 0) + position.z;
+        velocities[i * 3] = (parent >= 0 ? velocities[parent * 3] : 0) + velocity.x;
+        velocities[i * 3 + 1] = (parent >= 0 ? velocities[parent * 3 + 1] : 0) + velocity.y;
+        velocities[i * 3 + 2] = (parent >= 0 ? velocities[parent * 3 + 2] : 0) + velocity.z;
+    }
+};
+
+export const createSimulationEngine = (
+    initialBodies: CelestialBody[],
+    initialSettings: Partial<PhysicsSettings> = {},
+    initialSeed: string = DEFAULT_SEED
+): SimulationEngine => {
+    let settings: PhysicsSettings = { ...DEFAULT_PHYSICS_SETTINGS, ...initialSettings };
+    let bodies: CelestialBody[] = [];
+    let arrays = createBodyArrays([]);
+    let hasFreeBodies = false;
+    // Free bodies integrated relative to their free parent, parents first (see localFrames)
+    let frames = new Int32Array(0);
+    // World-frame copy of the state while framed bodies hold relative coordinates
+    let world = arrays;
+    let time = 0;
+    let seed = initialSeed;
+    let random = createRandom(seed);
+    let stepSize = settings.timeStep;
+    // Step the adaptive integrator will try next, carried across step() calls
+    let adaptiveStep = settings.timeStep;
+    let revision = 0;
+    let pendingEvents: SimulationEvent[] = [];
+    let eventCounter = 0;
+    // Simulated time since the last sphere of influence check, and until the next
+    let sinceSoiCheck = 0;
+    let soiCheckInterval = 0;
+    const detector = createEventDetector();
+    const listeners = new Set<SimulationListener>();
+
+    const emit = () => listeners.forEach(listener => listener());
+    const gravitationalConstant = () => settings.G;
+
+    /** Copies the packed state back into the body records. */
+    const syncBodies = () => {
+        const { positions, velocities } = arrays;
+        bodies.forEach((b, i) => {
+            b.position = { x: positions[i * 3], y: positions[i * 3 + 1], z: positions[i * 3 + 2] };
+            b.velocity = { x: velocities[i * 3], y: velocities[i * 3 + 1], z: velocities[i * 3 + 2] };
+        });
+    };
+
+    // --- Local Frames ---
+    // With settings.localFrames on, a free body whose parent is also free is
+    // integrated in coordinates relative to that parent during step(), so a
+    // moon's small offsets from a planet don't drown in the round-off of
+    // their large world coordinates. Everywhere else the arrays stay in world
+    // coordinates.
+
+    const updateFrames = () => {
+        const { locked, parents, order } = arrays;
+        frames = settings.localFrames
+            ? order.filter(i => !locked[i] && parents[i] >= 0 && !locked[parents[i]])
+            : new Int32Array(0);
+        world = frames.length > 0
+            ? { ...arrays, positions: new Float64Array(arrays.positions.length), velocities: new Float64Array(arrays.velocities.length) }
+            : arrays;
+    };
+
+    /** Switches the framed bodies in `target` to coordinates relative to their parents, children first so each parent is still in world coordinates. */
+    const toParentFrames = (target: BodyArrays) => {
+        const { positions, velocities, parents } = target;
+        for (let f = frames.length - 1; f >= 0; f--) {
+            const i = frames[f], p = parents[i];
+            for (let k = 0; k < 3; k++) {
+                positions[i * 3 + k] -= positions[p * 3 + k];
+                velocities[i * 3 + k] -= velocities[p * 3 + k];
+            }
+        }
+    };
+
+    /** Inverse of toParentFrames, parents first. */
+    const toWorldFrame = (target: BodyArrays) => {
+        const { positions, velocities, parents } = target;
+        for (const i of frames) {
+            const p = parents[i];
+            for (let k = 0; k < 3; k++) {
+                positions[i * 3 + k] += positions[p * 3 + k];
+                velocities[i * 3 + k] += velocities[p * 3 + k];
+            }
+        }
+    };
+
+    /** The state in world coordinates: the arrays themselves, or a converted copy while bodies are framed. */
+    const worldView = (): BodyArrays => {
+        if (world === arrays) return arrays;
+        world.positions.set(arrays.positions);
+        world.velocities.set(arrays.velocities);
+        toWorldFrame(world);
+        return world;
+    };
+
+    /** Re-packs the body records after a structural change. */
+    const rebuild = () => {
+        arrays = createBodyArrays(bodies);
+        hasFreeBodies = bodies.some(b => !b.isLocked);
+        updateFrames();
+        revision++;
+        propagateRails(arrays, time, gravitationalConstant());
+        // New or changed bodies get their parents checked at the next sub-step
+        soiCheckInterval = 0;
+        emit();
+    };
+
+    /**
+     * Detects and resolves impacts at the current time, rebuilding the arrays
+     * if anything changed. Called mid-step, with framed bodies in relative
+     * coordinates, and leaves them that way.
+     */
+    const handleCollisions = () => {
+        if (settings.collisionMode === 'none') return;
+        const view = worldView();
+        propagateRails(view, time, gravitationalConstant());
+        const pairs = findCollisions(view);
+        if (pairs.length === 0) return;
+
+        toWorldFrame(arrays);
+        propagateRails(arrays, time, gravitationalConstant());
+        syncBodies();
+        const removed = new Set<string>();
+        const heirs = new Map<string, string>();
+        const added: CelestialBody[] = [];
+        for (const { a, b } of pairs) {
+            const result = resolveCollision(bodies[a], bodies[b], settings, time, `impact-${++eventCounter}`, random);
+            result.removed.forEach(id => {
+                removed.add(id);
+                if (result.heir) heirs.set(id, result.heir);
+            });
+            added.push(...result.added);
+            pendingEvents.push(result.event);
+        }
+
+        bodies = bodies.filter(b => !removed.has(b.id)).concat(added);
+        adoptOrphans(removed, heirs);
+        rebuild();
+        toParentFrames(arrays);
+    };
+
+    /** Records what the detector finds at the current time. Called after each sub-step, like handleCollisions. */
+    const detectEvents = () => {
+        if (!settings.detectEvents) return;
+        const view = worldView();
+        propagateRails(view, time, gravitationalConstant());
+        for (const event of detector.detect(view, bodies, time, settings)) {
+            pendingEvents.push({ ...event, id: `${event.type}-${++eventCounter}` });
+        }
+    };
+
+    /** Starts the detector afresh from the current state, which the next detection is compared with. */
+    const primeDetector = () => {
+        detector.reset();
+        if (settings.detectEvents) detector.detect(worldView(), bodies, time, settings);
+    };
+
+    const railsEvent = (bodyIds: string[], message: string) => {
+        pendingEvents.push({ id: `rails-${++eventCounter}`, type: 'rails', time, bodyIds, message });
+    };
+
+    /**
+     * Hands the children of removed bodies to their heirs: the body that took
+     * their place in an impact (see CollisionResult.heir), or the parent of
+     * one deleted outright. Rails are refitted to the heir so nothing jumps. A child left without a parent, or without an orbit to
+     * fit, leaves its rails. The records must hold the current state.
+     */
+    const adoptOrphans = (removed: Set<string>, heirs: Map<string, string>) => {
+        const byId = new Map(bodies.map(b => [b.id, b]));
+        for (const body of bodies) {
+            if (!body.parentId || !removed.has(body.parentId)) continue;
+            const heirId = heirs.get(body.parentId);
+            const heir = heirId !== undefined && heirId !== body.id ? byId.get(heirId) : undefined;
+            body.parentId = heir?.id;
+            if (!body.isLocked || !body.orbitalElements) continue;
+
+            const orbit = heir && calculateOrbitalElements(
+                { x: body.position.x - heir.position.x, y: body.position.y - heir.position.y, z: body.position.z - heir.position.z },
+                { x: body.velocity.x - heir.velocity.x, y: body.velocity.y - heir.velocity.y, z: body.velocity.z - heir.velocity.z },
+                time,
+                orbitMass(body, heir),
+                gravitationalConstant()
+            );
+            if (orbit) {
+                body.orbitalElements = orbit;
+                continue;
+            }
+            body.isLocked = false;
+            body.orbitalElements = undefined;
+            railsEvent([body.id], `${body.name} lost the body it orbited and left its rails.`);
+        }
+    };
+
+    const releaseBody = (id: string) => {
+        const index = bodies.findIndex(b => b.id === id);
+        if (index < 0 || !arrays.locked[index]) return;
+
+        propagateRails(arrays, time, gravitationalConstant());
+        syncBodies();
+        const body = bodies[index];
+        body.isLocked = false;
+        body.orbitalElements = undefined;
+        railsEvent([id], `${body.name} left its rails and is now integrated as an N-body object.`);
+        rebuild();
+    };
+
+    /** Whether making `parent` the parent of `index` would close a loop in the hierarchy. */
+    const wouldLoop = (index: number, parent: number) => {
+        for (let ancestor = parent; ancestor >= 0; ancestor = arrays.parents[ancestor]) {
+            if (ancestor === index) return true;
+        }
+        return false;
+    };
+
+    /**
+     * Osculating elements of body `index` relative to `parent` (the origin
+     * when -1, as propagateRails treats parentless rails), fitted to the
+     * current state. Rails must have been propagated to the current time.
+     */
+    const fitOrbit = (index: number, parent: number) => {
+        const { positions, velocities } = arrays;
+        const relative = (values: Float64Array) => ({
+            x: values[index * 3] - (parent >= 0 ? values[parent * 3] : 0),
+            y: values[index * 3 + 1] - (parent >= 0 ? values[parent * 3 + 1] : 0),
+            z: values[index * 3 + 2] - (parent >= 0 ? values[parent * 3 + 2] : 0)
+        });
+        return calculateOrbitalElements(
+            relative(positions),
+            relative(velocities),
+            time,
+            parent >= 0 ? orbitMass(bodies[index], bodies[parent]) : DEFAULT_PARENT_MASS,
+            gravitationalConstant()
+        );
+    };
+
+    const lockBody = (id: string, parentId: string) => {
+        const index = bodies.findIndex(b => b.id === id);
+        const parent = bodies.findIndex(b => b.id === parentId);
+        if (index < 0 || parent < 0 || parent === index || arrays.locked[index]) return;
+        const body = bodies[index];
+
+        // Rails are propagated relative to the parent, so the chain must not loop back
+        if (wouldLoop(index, parent)) {
+            railsEvent([id, parentId], `${body.name} can't orbit ${bodies[parent].name}, which itself orbits ${body.name}.`);
+            return;
+        }
+
+        propagateRails(arrays, time, gravitationalConstant());
+        const orbit = fitOrbit(index, parent);
+        if (!orbit) {
+            railsEvent([id, parentId], `${body.name} is heading straight towards or away from ${bodies[parent].name} and has no orbit to put on rails.`);
+            return;
+        }
+
+        syncBodies();
+        body.isLocked = true;
+        body.orbitalElements = orbit;
+        body.parentId = parentId;
+        railsEvent([id, parentId], `${body.name} was put on rails around ${bodies[parent].name} (a = ${orbit.semiMajorAxis.toFixed(2)}, e = ${orbit.eccentricity.toFixed(3)}).`);
+        rebuild();
+    };
+
+    const reparentBody = (id: string, parentId: string | undefined) => {
+        const index = bodies.findIndex(b => b.id === id);
+        const parent = parentId === undefined ? -1 : bodies.findIndex(b => b.id === parentId);
+        if (index < 0 || parent === index || (parentId !== undefined && parent < 0)) return;
+        const body = bodies[index];
+        const parentName = parent >= 0 ? bodies[parent].name : 'the origin';
+
+        if (wouldLoop(index, parent)) {
+            railsEvent([id, parentId!], `${body.name} can't orbit ${parentName}, which itself orbits ${body.name}.`);
+            return;
+        }
+
+        propagateRails(arrays, time, gravitationalConstant());
+        if (arrays.locked[index] && body.orbitalElements) {
+            const orbit = fitOrbit(index, parent);
+            if (!orbit) {
+                railsEvent(parentId ? [id, parentId] : [id], `${body.name} is heading straight towards or away from ${parentName} and has no orbit to put on rails.`);
+                return;
+            }
+            body.orbitalElements = orbit;
+        }
+
+        syncBodies();
+        body.parentId = parentId;
+        rebuild();
+    };
+
+    /**
+     * Hands each free body to the body whose sphere of influence it is in now
+     * (see findDominantBody), recording an 'soi' event for each change. Free
+     * bodies are kept in world coordinates, so none of them moves. Sets when
+     * the next check is due: within half the time the fastest free body takes
+     * to cross the smallest sphere, so none is crossed unnoticed.
+     */
+    const updateDominantBodies = () => {
+        syncBodies();
+        const influence = mapInfluence(bodies, time, gravitationalConstant());
+        let changed = false;
+        for (const body of bodies) {
+            if (body.isLocked) continue;
+            const dominant = findDominantBody(body, influence);
+            if (!dominant || dominant.id === body.parentId) continue;
+
+            const previous = body.parentId ? influence.byId.get(body.parentId) : undefined;
+            const leaving = previous !== undefined && orbitsWithin(previous, dominant.id, influence.byId);
+            pendingEvents.push({
+                id: `soi-${++eventCounter}`,
+                type: 'soi',
+                time,
+                bodyIds: [body.id, dominant.id],
+                message: leaving
+                    ? `${body.name} left the sphere of influence of ${previous.name} and now orbits ${dominant.name}.`
+                    : influence.radii.has(dominant.id)
+                        ? `${body.name} entered the sphere of influence of ${dominant.name}.`
+                        : `${body.name} now orbits ${dominant.name}.`
+            });
+            body.parentId = dominant.id;
+            changed = true;
+        }
+        if (changed) rebuild();
+        soiCheckInterval = Math.min(SOI_CHECK_INTERVAL * settings.timeStep, shortestCrossingTime(bodies, influence) / 2);
+    };
+
+    /**
+     * Runs updateDominantBodies once it is due, counting the simulated time
+     * of each sub-step `h`. Called mid-step like handleCollisions, with framed
+     * bodies in relative coordinates, and leaves them that way.
+     */
+    const checkSpheresOfInfluence = (h: number) => {
+        if (!settings.soiReparenting) return;
+        sinceSoiCheck += Math.abs(h);
+        if (sinceSoiCheck < soiCheckInterval) return;
+        sinceSoiCheck = 0;
+        toWorldFrame(arrays);
+        propagateRails(arrays, time, gravitationalConstant());
+        updateDominantBodies();
+        toParentFrames(arrays);
+    };
+
+    const getState = (): SimulationState => {
+        syncBodies();
+        return { time, bodies: bodies.map(cloneBody), seed, randomState: random.getState() };
+    };
+
+    const getSnapshot = (): SimulationSnapshot => ({
+        revision,
+        time,
+        stepSize,
+        randomState: random.getState(),
+        positions: arrays.positions.slice(),
+        velocities: arrays.velocities.slice()
+    });
+
+    /**
+     * Restarts the random sequence, or carries one on from `randomState`. A
+     * new one is keyed by the time as well as the seed, so resuming a saved
+     * run at t replays the same way every time.
+     */
+    const reseed = (nextSeed: string, randomState?: number) => {
+        seed = nextSeed;
+        random = randomState !== undefined ? resumeRandom(randomState) : createRandom(`${seed}@${time}`);
+    };
+
+    const reset = () => {
+        bodies = initialBodies.map(cloneBody);
+        time = 0;
+        reseed(initialSeed);
+        rebuild();
+        primeDetector();
+    };
+
+    const accelerate: AccelerationFn = (at, out) => {
+        const view = worldView();
+        propagateRails(view, at, gravitationalConstant());
+        computeAccelerations(view, settings, out);
+        // A framed body accelerates relative to its parent, which accelerates too
+        const { parents } = arrays;
+        for (let f = frames.length - 1; f >= 0; f--) {
+            const i = frames[f], p = parents[i];
+            for (let k = 0; k < 3; k++) out[i * 3 + k] -= out[p * 3 + k];
+        }
+    };
+
+    const step = (dt: number) => {
+        if (dt === 0) return;
+        const integrator = INTEGRATORS[settings.integrator];
+        const direction = Math.sign(dt);
+        // Events are only looked for going forwards
+        const detecting = direction > 0;
+        const end = time + dt;
+        let smallest = Infinity;
+
+        if (!hasFreeBodies) {
+            // Rails alone are exact for any step
+            time = end;
+            smallest = Math.abs(dt);
+        } else if (integrator.adaptive) {
+            toParentFrames(arrays);
+            while ((end - time) * direction > 1e-12) {
+                const h = direction * Math.min(Math.abs(adaptiveStep), settings.timeStep, Math.abs(end - time));
+                const result = integrator.step(arrays, time, h, accelerate, settings.tolerance);
+                time += result.taken;
+                smallest = Math.min(smallest, Math.abs(result.taken));
+                adaptiveStep = Math.min(Math.abs(result.next), settings.timeStep);
+                handleCollisions();
+                checkSpheresOfInfluence(result.taken);
+                if (detecting) detectEvents();
+            }
+            toWorldFrame(arrays);
+            time = end;
+        } else {
+            const substeps = Math.max(1, Math.ceil(Math.abs(dt) / settings.timeStep));
+            const h = dt / substeps;
+            toParentFrames(arrays);
+            for (let s = 0; s < substeps; s++) {
+                integrator.step(arrays, time, h, accelerate, settings.tolerance);
+                time += h;
+                handleCollisions();
+                checkSpheresOfInfluence(h);
+                if (detecting) detectEvents();
+            }
+            toWorldFrame(arrays);
+            time = end;
+            smallest = Math.abs(h);
+        }
+
+        // Locked bodies (Planets, Moons): Keplerian
+        propagateRails(arrays, time, gravitationalConstant());
+        if (!hasFreeBodies && detecting) detectEvents();
+        if (!detecting) primeDetector();
+        stepSize = smallest;
+        emit();
+    };
+
+    const setBodies = (next: CelestialBody[]) => {
+        bodies = next.map(cloneBody);
+        rebuild();
+        primeDetector();
+    };
+
+    const restore = (state: SimulationState) => {
+        bodies = state.bodies.map(cloneBody);
+        time = state.time;
+        reseed(state.seed, state.randomState);
+        rebuild();
+        primeDetector();
+    };
+
+    const addBody = (body: CelestialBody) => {
+        syncBodies();
+        bodies.push(cloneBody(body));
+        rebuild();
+    };
+
+
+    const addBodies = (next: CelestialBody[]) => {
+        syncBodies();
+        bodies.push(...next.map(cloneBody));
+        rebuild();
+    };
+
+    const removeBodies = (ids: string[]) => {
+        const removed = new Set(ids);
+        syncBodies();
+        // A removed body's children go to its nearest ancestor that stays
+        const byId = new Map(bodies.map(b => [b.id, b]));
+        const heirs = new Map<string, string>();
+        removed.forEach(id => {
+            let heir = byId.get(id)?.parentId;
+            for (let depth = 0; heir !== undefined && removed.has(heir) && depth < byId.size; depth++) heir = byId.get(heir)?.parentId;
+            if (heir !== undefined && byId.has(heir) && !removed.has(heir)) heirs.set(id, heir);
+        });
+        bodies = bodies.filter(b => !removed.has(b.id));
+        adoptOrphans(removed, heirs);
+        rebuild();
+    };
+
+    const removeBody = (id: string) => removeBodies([id]);
+
+    const updateBody = (id: string, patch: Partial<CelestialBody>) => {
+        syncBodies();
+        bodies = bodies.map(b => b.id === id ? cloneBody({ ...b, ...patch }) : b);
+        rebuild();
+    };
+
+    /**
+     * Shifts the epoch mean anomaly of every rails orbit that moves at its
+     * Keplerian rate so it stays where it is now when that rate changes with G.
+     * Ephemeris orbits carry their own mean motion and are left alone.
+     */
+    const rebaseRails = (previousG: number, nextG: number) => {
+        syncBodies();
+        bodies = bodies.map((b, i) => {
+            const orbit = b.orbitalElements;
+            if (!b.isLocked || !orbit || orbit.rates) return b;
+            const parentMass = arrays.parents[i] >= 0 ? arrays.orbitMasses[i] : DEFAULT_PARENT_MASS;
+            const shift = (keplerianMeanMotion(orbit, previousG * parentMass) - keplerianMeanMotion(orbit, nextG * parentMass)) * time;
+            let M0 = orbit.meanAnomalyEpoch + shift;
+            if (orbit.eccentricity < 1) M0 -= Math.round(M0 / (2 * Math.PI)) * 2 * Math.PI;
+            return { ...b, orbitalElements: { ...orbit, meanAnomalyEpoch: M0 } };
+        });
+    };
+
+    const updateSettings = (patch: Partial<PhysicsSettings>) => {
+        const previousG = settings.G;
+        settings = { ...settings, ...patch };
+        if (settings.G !== previousG) {
+            rebaseRails(previousG, settings.G);
+            rebuild();
+            return;
+        }
+        updateFrames();
+        emit();
+    };
+
+    const subscribe = (listener: SimulationListener) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+    };
+
+    reset();
+
+    return {
+        step,
+        seek: (target) => step(target - time),
+        getState,
+        getSnapshot,
+        getStepSize: () => stepSize,
+        getDiagnostics: () => computeConservedQuantities(arrays, time, settings),
+        compareSolvers: () => compareWithDirectSummation(arrays, settings.theta, settings),
+        drainEvents: () => {
+            const events = pendingEvents;
+            pendingEvents = [];
+            return events;
+        },
+        getRevision: () => revision,
+        reset,
+        getSettings: () => settings,
+        updateSettings,
+        setBodies,
+        restore,
+        addBody,
+        removeBody,
+        addBodies,
+        removeBodies,
+        updateBody,
+        releaseBody,
+        lockBody,
+        reparentBody,
+        subscribe
+    };
+};
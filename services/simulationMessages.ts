@@ -0,0 +1,44 @@
+import { CelestialBody, PhysicsSettings, SimulationEvent } from '../types';
+import { TrajectoryPrediction } from './prediction';
+import { SimulationState } from './simulationEngine';
+import { ConservedQuantities } from './diagnostics';
+import { SolverComparison } from './barnesHut';
+
+// --- Main thread -> Worker ---
+
+// `generation` counts the client's restores and resets; the worker tags events with the latest one
+
+export type SimulationRequest =
+    // `bodies` and `seed` are what reset() returns to; `resume` is where a restarted worker carries on from
+    | { type: 'init'; bodies: CelestialBody[]; settings: PhysicsSettings; seed: string; generation: number; resume?: SimulationState }
+    | { type: 'step'; dt: number }
+    | { type: 'seek'; time: number }
+    | { type: 'reset'; generation: number }
+    | { type: 'restore'; time: number; bodies: CelestialBody[]; seed: string; randomState?: number; generation: number }
+    | { type: 'addBody'; body: CelestialBody }
+    | { type: 'removeBody'; id: string }
+    | { type: 'addBodies'; bodies: CelestialBody[] }
+    | { type: 'removeBodies'; ids: string[] }
+    | { type: 'updateBody'; id: string; patch: Partial<CelestialBody> }
+    | { type: 'releaseBody'; id: string }
+    | { type: 'lockBody'; id: string; parentId: string }
+    | { type: 'reparentBody'; id: string; parentId?: string }
+    | { type: 'updateSettings'; patch: Partial<PhysicsSettings> }
+    // While enabled, every snapshot carries the conserved quantities
+    | { type: 'setDiagnostics'; enabled: boolean }
+    // Answered with a 'prediction' carrying the same requestId; never changes the simulation
+    | { type: 'predict'; requestId: number; targets: string[]; extraBody?: CelestialBody }
+    // Answered with a 'solverComparison' carrying the same requestId
+    | { type: 'compareSolvers'; requestId: number };
+
+// --- Worker -> Main thread ---
+
+export type SimulationResponse =
+    // Sent whenever the body list changes; positions are current as of `revision`
+    | { type: 'bodies'; revision: number; bodies: CelestialBody[] }
+    // Events recorded since the previous response, oldest first, in the generation of the last restore
+    | { type: 'events'; generation: number; events: SimulationEvent[] }
+    | { type: 'prediction'; requestId: number; predictions: TrajectoryPrediction[] }
+    | { type: 'solverComparison'; requestId: number; comparison: SolverComparison }
+    // Sent after every request; the buffers are transferred, not copied
+    | { type: 'snapshot'; revision: number; time: number; stepSize: number; randomState: number; positions: Float64Array; velocities: Float64Array; diagnostics?: ConservedQuantities };
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { OrbitalElements, Vector3 } from '../types';
+import { UNIT_SYSTEMS } from '../constants';
+import { AU_KM } from './ephemerisData';
+import { calculateOrbitalPosition } from './orbitalMechanics';
+import { importSmallBodies } from './smallBodyImport';
+
+const G = UNIT_SYSTEMS.astronomical.G;
+const rad = (deg: number) => deg * Math.PI / 180;
+
+// Ceres as published by the MPC and JPL for the epoch 2024 October 17.0 TT
+const CERES_MPCORB = '00001    3.34  0.15 K24AH 145.84905   73.27061   80.25193   10.58682  0.0794013  0.21424786   2.7660512  0 E2024-A1   7330 125 1801-2024 0.65 M-v 30k MPCLINUX   4000 (1) Ceres                   20240923';
+const CERES_EPOCH = 9055.5; // Days from J2000.0 to 2024-10-17 0h
+const SBDB_HEADER = 'spkid,full_name,pdes,name,a,e,i,om,w,ma,epoch,diameter,GM,H';
+const CERES_SBDB = '20000001,"     1 Ceres (A801 AA)",1,Ceres,2.7660512,0.0794013,10.58682,80.25193,73.27061,145.84905,2460600.5,939.4,62.6284,3.34';
+
+/** Where the textbook ecliptic formulae put a closed orbit at mean anomaly M, turned into the scene's Y-up axes. */
+const eclipticPosition = (a: number, e: number, i: number, node: number, peri: number, M: number): Vector3 => {
+    let E = M;
+    for (let k = 0; k < 20; k++) E -= (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    const v = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+    const r = a * (1 - e * Math.cos(E));
+    const u = peri + v;
+    const x = r * (Math.cos(node) * Math.cos(u) - Math.sin(node) * Math.sin(u) * Math.cos(i));
+    const y = r * (Math.sin(node) * Math.cos(u) + Math.cos(node) * Math.sin(u) * Math.cos(i));
+    const z = r * Math.sin(u) * Math.sin(i);
+    return { x, y: z, z: -y };
+};
+
+/** Checks elements converted from Ceres's, and that the rails put it where the ecliptic elements say at the epoch. */
+const expectCeres = (elements: OrbitalElements) => {
+    expect(elements.semiMajorAxis).toBeCloseTo(2.7660512, 9);
+    expect(elements.eccentricity).toBeCloseTo(0.0794013, 9);
+    expect(elements.inclination).toBeCloseTo(rad(10.58682), 9);
+    expect(elements.ascendingNode).toBeCloseTo(rad(80.25193), 9);
+    expect(elements.periapsis).toBeCloseTo(rad(73.27061), 9);
+
+    const position = calculateOrbitalPosition(elements, CERES_EPOCH, 1, G);
+    const expected = eclipticPosition(2.7660512, 0.0794013, rad(10.58682), rad(80.25193), rad(73.27061), rad(145.84905));
+    expect(position.x).toBeCloseTo(expected.x, 6);
+    expect(position.y).toBeCloseTo(expected.y, 6);
+    expect(position.z).toBeCloseTo(expected.z, 6);
+};
+
+describe('importSmallBodies', () => {
+    it('reads Ceres from an MPCORB line', () => {
+        const { format, bodies, problems } = importSmallBodies(CERES_MPCORB, 'sun');
+        expect(format).toBe('MPCORB');
+        expect(problems).toEqual([]);
+        const [ceres] = bodies;
+        expect(ceres.id).toBe('mpc-00001');
+        expect(ceres.name).toBe('(1) Ceres');
+        expect(ceres.parentId).toBe('sun');
+        expect(ceres.isLocked).toBe(true);
+        // The file's mean motion is kept, winding the mean anomaly back from the epoch to J2000
+        expect(ceres.orbitalElements!.rates!.meanMotion).toBeCloseTo(rad(0.21424786), 12);
+        expect(ceres.orbitalElements!.meanAnomalyEpoch).toBeCloseTo(rad(145.84905) - rad(0.21424786) * CERES_EPOCH, 9);
+        expectCeres(ceres.orbitalElements!);
+    });
+
+    it('reads Ceres from an SBDB CSV export', () => {
+        const { format, bodies, problems } = importSmallBodies(`${SBDB_HEADER}\n${CERES_SBDB}\n`, 'sun');
+        expect(format).toBe('SBDB CSV');
+        expect(problems).toEqual([]);
+        const [ceres] = bodies;
+        expect(ceres.id).toBe('sbdb-20000001');
+        expect(ceres.name).toBe('1 Ceres (A801 AA)');
+        expect(ceres.radius).toBeCloseTo(939.4 / 2 / AU_KM, 15);
+        expect(ceres.mass).toBeCloseTo(62.6284 / 1.32712440018e11, 20);
+        expectCeres(ceres.orbitalElements!);
+    });
+
+    it('puts an orbit tilted 90° with its periapsis at the node over the ecliptic north pole', () => {
+        const row = 'polar,1,0,90,0,90,0,2451545.0';
+        const { bodies } = importSmallBodies(`name,a,e,i,om,w,ma,epoch\n${row}`, 'sun');
+        const position = calculateOrbitalPosition(bodies[0].orbitalElements!, 0, 1, G);
+        expect(position.x).toBeCloseTo(0, 12);
+        expect(position.y).toBeCloseTo(1, 12);
+        expect(position.z).toBeCloseTo(0, 12);
+    });
+
+    it('reports the MPCORB lines it cannot use', () => {
+        const text = [
+            CERES_MPCORB,
+            CERES_MPCORB.slice(0, 80),
+            CERES_MPCORB.replace('K24AH', 'K24ZZ'),
+            CERES_MPCORB.replace('0.0794013', '  abc    ')
+        ].join('\n');
+        const { bodies, problems } = importSmallBodies(text, 'sun');
+        expect(bodies).toHaveLength(1);
+        expect(problems).toEqual([
+            { line: 2, message: 'too short for an MPCORB line' },
+            { line: 3, message: 'bad packed epoch "K24ZZ"' },
+            { line: 4, message: 'e is not a number' }
+        ]);
+    });
+
+    it('reports the CSV rows it cannot use', () => {
+        const text = [
+            SBDB_HEADER,
+            CERES_SBDB,
+            CERES_SBDB,
+            '2,Pallas,2,Pallas,2.77,1.5,34.9,172.9,310.9,23.0,2460600.5,,,4.1',
+            '3,Juno,3,Juno,2.67,0.26,twelve,169.8,247.9,33.1,2460600.5,,,5.2'
+        ].join('\n');
+        const { bodies, problems } = importSmallBodies(text, 'sun');
+        expect(bodies).toHaveLength(1);
+        expect(problems.map(p => p.line)).toEqual([3, 4, 5]);
+        expect(problems[0].message).toMatch(/duplicates/);
+        expect(problems[1].message).toMatch(/hyperbolic/);
+        expect(problems[2].message).toBe('i is not a number');
+    });
+});
@@ -0,0 +1,269 @@
+import { BodyType, CelestialBody, OrbitalElements } from '../types';
+import { UNIT_SYSTEMS } from '../constants';
+import { AU_KM } from './ephemerisData';
+
+// --- Small Body Import ---
+// Reads heliocentric elements of asteroids and comets from the two formats
+// they are usually published in: the fixed-width lines of the Minor Planet
+// Center's MPCORB.DAT, and CSV exports from JPL's Small-Body Database query
+// tool. Both give ecliptic J2000 elements in AU and degrees, which is the
+// frame the rails use: calculateOrbitalPosition rotates them into the scene's
+// Y-up axes, so only the angles and the epoch need converting here. Comets on
+// parabolic and hyperbolic orbits come through as well as closed orbits.
+
+export type SmallBodyFormat = 'MPCORB' | 'SBDB CSV';
+
+export interface ImportProblem {
+    line: number; // 1-based line in the file
+    message: string;
+}
+
+export interface SmallBodyImport {
+    format: SmallBodyFormat;
+    bodies: CelestialBody[];
+    /** Rows that were skipped, and why. */
+    problems: ImportProblem[];
+}
+
+// More than this many bodies would bog down the rails and the renderer
+export const MAX_IMPORTED_BODIES = 5000;
+
+const J2000_JD = 2451545.0;
+const MJD_OFFSET = 2400000.5;
+const SOLAR_MASS_KG = 1.98847e30;
+const SUN_GM = 1.32712440018e11; // km^3/s^2
+// Assumed when the file gives no size or mass: typical albedo and rocky density
+const DEFAULT_ALBEDO = 0.14;
+const DEFAULT_DENSITY = 2000; // kg/m^3
+const DEFAULT_DIAMETER = 1; // km
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+/** Diameter (km) of an asteroid of absolute magnitude H at the default albedo. */
+const diameterFromMagnitude = (H: number) => 1329 / Math.sqrt(DEFAULT_ALBEDO) * Math.pow(10, -H / 5);
+
+/** Mass (solar masses) of a sphere of the default density. */
+const massFromDiameter = (diameterKm: number) => {
+    const radiusM = diameterKm * 500;
+    return (4 / 3) * Math.PI * radiusM ** 3 * DEFAULT_DENSITY / SOLAR_MASS_KG;
+};
+
+interface RawElements {
+    a: number; // AU; negative for hyperbolas, the perihelion distance for parabolas
+    e: number;
+    i: number; // Degrees from here on
+    node: number;
+    peri: number;
+    M: number; // Mean anomaly at the epoch
+    epoch: number; // Days since J2000
+    n?: number; // Mean motion, degrees per day
+}
+
+/**
+ * Rails elements whose mean anomaly is wound back from the file's epoch to
+ * t=0 (J2000). The file's mean motion, or the Keplerian one around the Sun,
+ * is kept as a rate so the body is exactly where the file says at its epoch.
+ */
+const toOrbitalElements = ({ a, e, i, node, peri, M, epoch, n }: RawElements): OrbitalElements => {
+    const G = UNIT_SYSTEMS.astronomical.G;
+    const meanMotion = n !== undefined ? toRadians(n) : e === 1 ? Math.sqrt(G / (2 * a ** 3)) : Math.sqrt(G / Math.abs(a) ** 3);
+    return {
+        semiMajorAxis: a,
+        eccentricity: e,
+        inclination: toRadians(i),
+        ascendingNode: toRadians(node),
+        periapsis: toRadians(peri),
+        meanAnomalyEpoch: toRadians(M) - meanMotion * epoch,
+        rates: { semiMajorAxis: 0, eccentricity: 0, inclination: 0, ascendingNode: 0, periapsis: 0, meanMotion }
+    };
+};
+
+/** Throws if the elements don't describe an orbit the rails can follow. */
+const checkElements = (raw: RawElements) => {
+    Object.entries(raw).forEach(([key, value]) => {
+        if (value !== undefined && !Number.isFinite(value)) throw new Error(`${key} is not a number`);
+    });
+    if (raw.e < 0) throw new Error('negative eccentricity');
+    if (raw.e > 1 && !(raw.a < 0)) throw new Error(`semi-major axis must be negative on a hyperbolic orbit (e = ${raw.e})`);
+    if (raw.e <= 1 && !(raw.a > 0)) throw new Error('semi-major axis must be positive');
+};
+
+const createBody = (id: string, name: string, raw: RawElements, diameterKm: number, mass: number, parentId: string, color: string): CelestialBody => ({
+    id,
+    name,
+    type: BodyType.ASTEROID,
+    mass,
+    radius: diameterKm / 2 / AU_KM,
+    color,
+    position: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    orbitalElements: toOrbitalElements(raw),
+    isLocked: true,
+    parentId,
+    description: `${name}, imported with elements for ${new Date(Date.UTC(2000, 0, 1, 12) + raw.epoch * 86400000).toISOString().slice(0, 10)}.`
+});
+
+// --- MPCORB ---
+
+// 0-9, then A-Z for 10-35 and a-z for 36-61, as used in packed dates
+const unpackDigit = (c: string) => {
+    const code = c.charCodeAt(0);
+    if (c >= '0' && c <= '9') return code - 48;
+    if (c >= 'A' && c <= 'Z') return code - 55;
+    if (c >= 'a' && c <= 'z') return code - 61;
+    return NaN;
+};
+
+/** Days since J2000 of a packed MPC epoch such as "K24AH" (2024 October 17, 0h TT). */
+const unpackEpoch = (packed: string) => {
+    if (!/^[I-L]\d\d[1-9A-C][1-9A-V]$/.test(packed)) throw new Error(`bad packed epoch "${packed}"`);
+    const year = unpackDigit(packed[0]) * 100 + Number(packed.slice(1, 3));
+    const month = unpackDigit(packed[3]);
+    const day = unpackDigit(packed[4]);
+    return (Date.UTC(year, month - 1, day) - Date.UTC(2000, 0, 1, 12)) / 86400000;
+};
+
+/** Parses a fixed-width field given by its 1-based, inclusive columns. */
+const column = (line: string, from: number, to: number) => line.slice(from - 1, to).trim();
+const numberColumn = (line: string, from: number, to: number) => {
+    const text = column(line, from, to);
+    return text === '' ? NaN : Number(text);
+};
+
+const parseMpcorbLine = (line: string, parentId: string, color: string): CelestialBody => {
+    if (line.length < 103) throw new Error('too short for an MPCORB line');
+    const packed = column(line, 1, 7);
+    if (packed === '') throw new Error('missing designation');
+    const raw: RawElements = {
+        M: numberColumn(line, 27, 35),
+        peri: numberColumn(line, 38, 46),
+        node: numberColumn(line, 49, 57),
+        i: numberColumn(line, 60, 68),
+        e: numberColumn(line, 71, 79),
+        n: numberColumn(line, 81, 91),
+        a: numberColumn(line, 93, 103),
+        epoch: unpackEpoch(column(line, 21, 25))
+    };
+    checkElements(raw);
+    const H = numberColumn(line, 9, 13);
+    const diameter = Number.isFinite(H) ? diameterFromMagnitude(H) : DEFAULT_DIAMETER;
+    const name = column(line, 167, 194) || packed;
+    return createBody(`mpc-${packed}`, name, raw, diameter, massFromDiameter(diameter), parentId, color);
+};
+
+// --- SBDB CSV ---
+
+/** Splits one CSV line, honouring double quotes ("" inside quotes is a quote). */
+const splitCsvLine = (line: string): string[] => {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i];
+        if (quoted) {
+            if (c === '"' && line[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            fields.push(field.trim());
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    fields.push(field.trim());
+    return fields;
+};
+
+const REQUIRED_CSV_COLUMNS = ['e', 'i', 'om', 'w'];
+
+const parseSbdbRow = (row: Record<string, string>, parentId: string, color: string): CelestialBody => {
+    const number = (key: string) => row[key] === undefined || row[key] === '' ? NaN : Number(row[key]);
+    const e = number('e');
+    // Comets often come with the perihelion distance and time instead of a and M; a is blank for parabolas
+    const a = row.a ? number('a') : e === 1 ? number('q') : number('q') / (1 - e);
+    const atPerihelion = !row.ma && !!row.tp;
+    const epochJd = atPerihelion ? number('tp') : row.epoch !== undefined ? number('epoch') : number('epoch_mjd') + MJD_OFFSET;
+    const raw: RawElements = {
+        a,
+        e,
+        i: number('i'),
+        node: number('om'),
+        peri: number('w'),
+        M: atPerihelion ? 0 : number('ma'),
+        epoch: epochJd - J2000_JD,
+        n: row.n ? number('n') : undefined
+    };
+    checkElements(raw);
+
+    const diameter = row.diameter ? number('diameter') : row.H ? diameterFromMagnitude(number('H')) : DEFAULT_DIAMETER;
+    if (!(diameter > 0)) throw new Error('diameter must be positive');
+    const mass = row.GM ? number('GM') / SUN_GM : massFromDiameter(diameter);
+
+    const name = row.full_name || row.name || row.pdes || row.spkid;
+    if (!name) throw new Error('no full_name, name, pdes or spkid to identify it by');
+    const key = row.spkid || row.pdes || name;
+    return createBody(`sbdb-${key.replace(/[^A-Za-z0-9]+/g, '-')}`, name, raw, diameter, mass, parentId, color);
+};
+
+/**
+ * Parses an MPCORB file (header optional) or an SBDB CSV export with a header
+ * row naming at least e, i, om, w, a or q, and ma with epoch (JD) or
+ * epoch_mjd, or the time of perihelion tp (JD) instead. Bodies
+ * are put on rails around `parentId`. Rows that can't be used are reported
+ * rather than failing the whole file; a file that is neither format throws.
+ */
+export const importSmallBodies = (text: string, parentId: string, color = '#8d8d8d'): SmallBodyImport => {
+    const lines = text.split(/\r?\n/);
+    const firstIndex = lines.findIndex(line => line.trim() !== '');
+    if (firstIndex < 0) throw new Error('The file is empty.');
+
+    const bodies: CelestialBody[] = [];
+    const problems: ImportProblem[] = [];
+    const ids = new Set<string>();
+    const add = (lineIndex: number, parse: () => CelestialBody) => {
+        if (bodies.length >= MAX_IMPORTED_BODIES) {
+            problems.push({ line: lineIndex + 1, message: `this and later rows skipped: only the first ${MAX_IMPORTED_BODIES} bodies are imported` });
+            return false;
+        }
+        try {
+            const body = parse();
+            if (ids.has(body.id)) throw new Error(`duplicates ${body.name}`);
+            ids.add(body.id);
+            bodies.push(body);
+        } catch (e) {
+            problems.push({ line: lineIndex + 1, message: (e as Error).message });
+        }
+        return true;
+    };
+
+    const header = splitCsvLine(lines[firstIndex]);
+    if (header.length > 1 && REQUIRED_CSV_COLUMNS.every(key => header.includes(key))) {
+        if (!header.includes('a') && !header.includes('q')) throw new Error('The CSV has no a or q column.');
+        const hasEpoch = header.includes('ma') && (header.includes('epoch') || header.includes('epoch_mjd'));
+        if (!hasEpoch && !header.includes('tp')) throw new Error('The CSV needs ma with epoch or epoch_mjd, or tp.');
+        for (let i = firstIndex + 1; i < lines.length; i++) {
+            if (lines[i].trim() === '') continue;
+            const fields = splitCsvLine(lines[i]);
+            const row = Object.fromEntries(header.map((key, k) => [key, fields[k] ?? '']));
+            if (!add(i, () => parseSbdbRow(row, parentId, color))) break;
+        }
+        return { format: 'SBDB CSV', bodies, problems };
+    }
+    if (header.length > 1) {
+        throw new Error(`The CSV needs columns ${REQUIRED_CSV_COLUMNS.join(', ')}, a or q, and ma with epoch or tp.`);
+    }
+
+    // MPCORB.DAT opens with a text header ending in a line of dashes; extracts don't
+    const dashes = lines.findIndex(line => /^-{20,}/.test(line));
+    for (let i = dashes >= 0 ? dashes + 1 : firstIndex; i < lines.length; i++) {
+        if (lines[i].trim() === '') continue;
+        if (!add(i, () => parseMpcorbLine(lines[i], parentId, color))) break;
+    }
+    if (bodies.length === 0 && problems.length > 0 && dashes < 0 && problems.every(p => p.message.startsWith('too short'))) {
+        throw new Error('Not an MPCORB file or an SBDB CSV export.');
+    }
+    return { format: 'MPCORB', bodies, problems };
+};
@@ -0,0 +1,128 @@
+import { CelestialBody, OrbitalElements } from '../types';
+import { G_CONSTANT } from '../constants';
+import { calculateOrbitalElements } from './orbitalMechanics';
+import { orbitMass } from './gravity';
+
+// --- Spheres of Influence ---
+// Where a body's own gravity matters more than its parent's. The sphere of
+// influence (Laplace radius, a (m/M)^(2/5)) is where patched conics switch
+// from orbiting the parent to orbiting the body; the Hill sphere (a(1-e)
+// (m/3M)^(1/3), at periapsis) is where the body can hold on to moons at all.
+// Free bodies are assigned to the body whose sphere they are deepest inside.
+
+// A body counts as still inside its current parent's sphere until this much further out, so one skimming the edge doesn't flip back and forth
+const SOI_HYSTERESIS = 0.05;
+
+export interface InfluenceRadii {
+    soi: number;
+    hill: number;
+}
+
+/** Radii around a body of mass `mass` on `elements` around a parent of mass `parentMass`. Null for open orbits, which have neither. */
+export const influenceRadii = (elements: OrbitalElements, mass: number, parentMass: number): InfluenceRadii | null => {
+    const { semiMajorAxis: a, eccentricity: e } = elements;
+    if (e >= 1 || !(a > 0) || !(mass > 0) || !(parentMass > 0)) return null;
+    return {
+        soi: a * Math.pow(mass / parentMass, 2 / 5),
+        hill: a * (1 - e) * Math.cbrt(mass / (3 * parentMass))
+    };
+};
+
+/**
+ * The orbit `body` is on around `parent` now: its rails, or for a free body
+ * the osculating orbit fitted to the states in the records.
+ */
+export const currentOrbit = (body: CelestialBody, parent: CelestialBody, time: number, G = G_CONSTANT): OrbitalElements | null => {
+    if (body.isLocked) return body.orbitalElements ?? null;
+    return calculateOrbitalElements(
+        { x: body.position.x - parent.position.x, y: body.position.y - parent.position.y, z: body.position.z - parent.position.z },
+        { x: body.velocity.x - parent.velocity.x, y: body.velocity.y - parent.velocity.y, z: body.velocity.z - parent.velocity.z },
+        time,
+        orbitMass(body, parent),
+        G
+    );
+};
+
+/** Spheres of every body on a closed orbit around a parent, by id, plus what findDominantBody needs to search them. */
+export interface InfluenceMap {
+    radii: Map<string, InfluenceRadii>;
+    byId: Map<string, CelestialBody>;
+    /** Bodies at the top of the hierarchy, whose influence has no edge. */
+    roots: CelestialBody[];
+}
+
+/** Maps the spheres of `bodies`, whose positions and velocities must be current. */
+export const mapInfluence = (bodies: CelestialBody[], time: number, G = G_CONSTANT): InfluenceMap => {
+    const byId = new Map(bodies.map(b => [b.id, b]));
+    const radii = new Map<string, InfluenceRadii>();
+    const roots: CelestialBody[] = [];
+    for (const body of bodies) {
+        const parent = body.parentId ? byId.get(body.parentId) : undefined;
+        if (!parent) {
+            roots.push(body);
+            continue;
+        }
+        const orbit = currentOrbit(body, parent, time, G);
+        const r = orbit && influenceRadii(orbit, body.mass, parent.mass);
+        if (r) radii.set(body.id, r);
+    }
+    return { radii, byId, roots };
+};
+
+/**
+ * Shortest time in which any free body in `bodies` could cross a sphere in
+ * `influence` it could be captured by (see findDominantBody): the sphere's
+ * diameter over the free body's speed plus the sphere's own. Infinite when
+ * there are no such spheres.
+ */
+export const shortestCrossingTime = (bodies: CelestialBody[], { radii, byId }: InfluenceMap): number => {
+    let fastest = 0, lightest = Infinity;
+    for (const body of bodies) {
+        if (body.isLocked) continue;
+        fastest = Math.max(fastest, Math.hypot(body.velocity.x, body.velocity.y, body.velocity.z));
+        lightest = Math.min(lightest, body.mass);
+    }
+    let shortest = Infinity;
+    radii.forEach((r, id) => {
+        const holder = byId.get(id)!;
+        if (holder.mass <= lightest) return;
+        const speed = fastest + Math.hypot(holder.velocity.x, holder.velocity.y, holder.velocity.z);
+        if (speed > 0) shortest = Math.min(shortest, 2 * r.soi / speed);
+    });
+    return shortest;
+};
+
+/** Whether `body` orbits `ancestorId`, directly or further up. Bounded in case the records loop. */
+export const orbitsWithin = (body: CelestialBody, ancestorId: string, byId: Map<string, CelestialBody>): boolean => {
+    let b = body.parentId ? byId.get(body.parentId) : undefined;
+    for (let depth = 0; b && depth < byId.size; depth++, b = b.parentId ? byId.get(b.parentId) : undefined) {
+        if (b.id === ancestorId) return true;
+    }
+    return false;
+};
+
+/**
+ * The body whose gravity dominates `body`: the one with the smallest sphere
+ * of influence it is inside, or failing that the heaviest body at the top of
+ * the hierarchy. Only bodies heavier than `body` and not orbiting it count.
+ * Undefined when nothing qualifies, e.g. for the central star itself.
+ */
+export const findDominantBody = (body: CelestialBody, { radii, byId, roots }: InfluenceMap): CelestialBody | undefined => {
+    const qualifies = (candidate: CelestialBody) =>
+        candidate.mass > body.mass && candidate.id !== body.id && !orbitsWithin(candidate, body.id, byId);
+
+    let dominant: CelestialBody | undefined;
+    let dominantRadius = Infinity;
+    radii.forEach((r, id) => {
+        const candidate = byId.get(id)!;
+        if (r.soi >= dominantRadius || !qualifies(candidate)) return;
+        const { x, y, z } = candidate.position;
+        const edge = id === body.parentId ? r.soi * (1 + SOI_HYSTERESIS) : r.soi;
+        if (Math.hypot(body.position.x - x, body.position.y - y, body.position.z - z) < edge) {
+            dominant = candidate;
+            dominantRadius = r.soi;
+        }
+    });
+    if (dominant) return dominant;
+    return roots.reduce<CelestialBody | undefined>((heaviest, b) => qualifies(b) && (!heaviest || b.mass > heaviest.mass) ? b : heaviest, undefined);
+};
@@ -0,0 +1,254 @@
+import { BodyType, CelestialBody, OrbitalElements, Vector3 } from '../types';
+import { createRandom } from './random';
+
+// --- Procedural System Generator ---
+// Builds a whole star system from a handful of parameters. Every random choice
+// comes from a generator seeded by `seed`, and ids are derived from positions
+// in the system rather than the clock, so a seed always reproduces the same
+// bodies exactly. Everything rides Kepler rails: multiple stars circle a
+// barycenter, and the planets and belts circle that barycenter in turn.
+
+export interface BeltSpec {
+    name: string;
+    count: number;
+    innerRadius: number;
+    outerRadius: number;
+    /** Eccentricities are drawn from [0, eccentricitySpread). */
+    eccentricitySpread: number;
+    /** Inclinations are drawn from ±inclinationSpread (radians). */
+    inclinationSpread: number;
+    color: string;
+}
+
+export interface SystemSpec {
+    seed: string;
+    starCount: 1 | 2 | 3;
+    planetCount: number;
+    /** Semi-major axis of the innermost planet; pushed outwards (as are belts) if the stars need the room. */
+    firstOrbit: number;
+    /** Ratio between the semi-major axes of neighbouring planets (Titius–Bode style). */
+    spacing: number;
+    /** Each planet gets between 0 and this many moons; heavier planets tend to get more. */
+    maxMoons: number;
+    belts: BeltSpec[];
+}
+
+export const DEFAULT_SYSTEM_SPEC: SystemSpec = {
+    seed: 'cosmos',
+    starCount: 1,
+    planetCount: 6,
+    firstOrbit: 12,
+    spacing: 1.5,
+    maxMoons: 3,
+    belts: [
+        { name: 'Inner Belt', count: 400, innerRadius: 34, outerRadius: 44, eccentricitySpread: 0.15, inclinationSpread: 0.1, color: '#7f8c8d' }
+    ]
+};
+
+// Separation of a binary, and of the third star from the inner pair of a trinary
+const BINARY_SEPARATION = 12;
+const TRINARY_SEPARATION = 50;
+// Planets and belts closer than this many times the stellar separation would be thrown out of the system
+const STABLE_ORBIT_FACTOR = 3;
+// Jitter applied to each planet's ideal semi-major axis
+const SPACING_JITTER = 0.1;
+
+const STAR_COLORS = ['#FDB813', '#ffd27f', '#ff9a5c', '#ff6f4f', '#cfe3ff', '#9bb0ff'];
+const PLANET_COLORS = ['#A5A5A5', '#E3BB76', '#4B9CD3', '#E27B58', '#C88B3A', '#D1E7E7', '#5B5DDF', '#7fb77e', '#b86fb0'];
+const SYLLABLES = ['ka', 'ter', 'ion', 'vel', 'so', 'mar', 'ri', 'the', 'lo', 'dra', 'nu', 'zen', 'qua', 'phi', 'rex', 'ta'];
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X'];
+
+/** Throws if the spec can't produce a sensible system. */
+const validateSpec = (spec: SystemSpec) => {
+    if (![1, 2, 3].includes(spec.starCount)) throw new Error('Star count must be 1, 2 or 3.');
+    if (!Number.isInteger(spec.planetCount) || spec.planetCount < 0) throw new Error('Planet count must be a whole number of at least 0.');
+    if (!(spec.firstOrbit > 0)) throw new Error('The first orbit must be positive.');
+    if (!(spec.spacing > 1)) throw new Error('Orbit spacing must be greater than 1.');
+    if (!Number.isInteger(spec.maxMoons) || spec.maxMoons < 0 || spec.maxMoons > ROMAN.length) {
+        throw new Error(`Moons per planet must be a whole number from 0 to ${ROMAN.length}.`);
+    }
+    spec.belts.forEach(belt => {
+        if (!Number.isInteger(belt.count) || belt.count < 0) throw new Error(`${belt.name}: count must be a whole number of at least 0.`);
+        if (!(belt.innerRadius > 0) || !(belt.outerRadius >= belt.innerRadius)) throw new Error(`${belt.name}: needs 0 < inner radius ≤ outer radius.`);
+        if (!(belt.eccentricitySpread >= 0 && belt.eccentricitySpread < 1)) throw new Error(`${belt.name}: eccentricity spread must be in [0, 1).`);
+        if (!(belt.inclinationSpread >= 0)) throw new Error(`${belt.name}: inclination spread must not be negative.`);
+    });
+};
+
+/**
+ * Generates the bodies of a system, parents always ahead of their children.
+ * Returns the system's name along with them.
+ */
+export const generateSystem = (spec: SystemSpec): { name: string, bodies: CelestialBody[] } => {
+    validateSpec(spec);
+    const random = createRandom(spec.seed);
+    const between = (min: number, max: number) => min + random() * (max - min);
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const angle = () => random() * Math.PI * 2;
+
+    const systemName = Array.from({ length: 2 + Math.floor(random() * 2) }, () => pick(SYLLABLES)).join('');
+    const name = systemName[0].toUpperCase() + systemName.slice(1);
+    const bodies: CelestialBody[] = [];
+    const still = (): Vector3 => ({ x: 0, y: 0, z: 0 });
+
+    // --- Stars ---
+    const stars = Array.from({ length: spec.starCount }, (_, i): CelestialBody => {
+        const mass = Math.round(between(400, 1200));
+        return {
+            id: `star-${i + 1}`,
+            name: spec.starCount === 1 ? name : `${name} ${String.fromCharCode(65 + i)}`,
+            type: BodyType.STAR,
+            mass,
+            radius: Math.round(Math.cbrt(mass) * 0.25 * 10) / 10,
+            color: pick(STAR_COLORS),
+            position: still(),
+            velocity: still(),
+            isLocked: true,
+            description: `A star of ${name}, generated from seed "${spec.seed}".`
+        };
+    });
+
+    let centerId = stars[0].id;
+    let innermostStable = 0;
+    if (spec.starCount > 1) {
+        const barycenter = (id: string, label: string, mass: number): CelestialBody => ({
+            id,
+            name: `${name} ${label}`,
+            type: BodyType.BARYCENTER,
+            mass,
+            radius: 0,
+            color: '#ffffff',
+            position: still(),
+            velocity: still(),
+            isLocked: true,
+            description: `The centre of mass the stars of ${name} circle.`
+        });
+
+        /** Puts `a` and `b` on opposite sides of a shared circular orbit around `center`. */
+        const pair = (center: CelestialBody, a: CelestialBody, b: CelestialBody, separation: number) => {
+            const phase = angle();
+            const orbit = (body: CelestialBody, other: CelestialBody, epoch: number) => {
+                body.parentId = center.id;
+                body.orbitalElements = {
+                    semiMajorAxis: separation * other.mass / (a.mass + b.mass),
+                    eccentricity: 0,
+                    inclination: 0,
+                    ascendingNode: 0,
+                    periapsis: 0,
+                    meanAnomalyEpoch: epoch
+                };
+            };
+            orbit(a, b, phase);
+            orbit(b, a, phase + Math.PI);
+        };
+
+        const [a, b, c] = stars;
+        const root = barycenter('barycenter', 'Barycenter', stars.reduce((sum, star) => sum + star.mass, 0));
+        centerId = root.id;
+        if (c) {
+            // Hierarchical triple: a close pair with the third star circling it from afar
+            const inner = barycenter('barycenter-ab', 'AB Barycenter', a.mass + b.mass);
+            pair(root, c, inner, TRINARY_SEPARATION);
+            pair(inner, a, b, BINARY_SEPARATION);
+            bodies.push(root, c, inner, a, b);
+            innermostStable = TRINARY_SEPARATION * STABLE_ORBIT_FACTOR;
+        } else {
+            pair(root, a, b, BINARY_SEPARATION);
+            bodies.push(root, a, b);
+            innermostStable = BINARY_SEPARATION * STABLE_ORBIT_FACTOR;
+        }
+    } else {
+        bodies.push(stars[0]);
+    }
+
+    // --- Planets and Moons ---
+    const firstOrbit = Math.max(spec.firstOrbit, innermostStable);
+    for (let p = 0; p < spec.planetCount; p++) {
+        const letter = String.fromCharCode(98 + p % 25); // b, c, d, ... as exoplanets are named
+        const mass = Math.round(Math.exp(between(Math.log(0.2), Math.log(15))) * 100) / 100;
+        const planet: CelestialBody = {
+            id: `planet-${p + 1}`,
+            name: `${name} ${letter}`,
+            type: BodyType.PLANET,
+            mass,
+            radius: Math.round((0.5 + Math.cbrt(mass) * 0.6) * 100) / 100,
+            color: pick(PLANET_COLORS),
+            position: still(),
+            velocity: still(),
+            orbitalElements: {
+                semiMajorAxis: firstOrbit * Math.pow(spec.spacing, p) * (1 + (random() * 2 - 1) * SPACING_JITTER),
+                eccentricity: random() * 0.1,
+                inclination: (random() * 2 - 1) * 0.05,
+                ascendingNode: angle(),
+                periapsis: angle(),
+                meanAnomalyEpoch: angle()
+            },
+            isLocked: true,
+            parentId: centerId,
+            description: `Planet ${letter} of the ${name} system.`
+        };
+        bodies.push(planet);
+
+        // Heavier planets hold on to more moons
+        const moonCount = Math.min(spec.maxMoons, Math.floor(random() * (spec.maxMoons + 1) * Math.min(1, mass / 5 + 0.3)));
+        for (let m = 0; m < moonCount; m++) {
+            const moonMass = Math.round(between(0.02, 0.3) * 100) / 100;
+            bodies.push({
+                id: `${planet.id}-moon-${m + 1}`,
+                name: `${planet.name} ${ROMAN[m]}`,
+                type: BodyType.MOON,
+                mass: moonMass,
+                radius: Math.round(between(0.2, 0.45) * 100) / 100,
+                color: pick(PLANET_COLORS),
+                position: still(),
+                velocity: still(),
+                orbitalElements: {
+                    semiMajorAxis: planet.radius * (2.5 + m * 1.5) + random(),
+                    eccentricity: random() * 0.05,
+                    inclination: (random() * 2 - 1) * 0.1,
+                    ascendingNode: angle(),
+                    periapsis: angle(),
+                    meanAnomalyEpoch: angle()
+                },
+                isLocked: true,
+                parentId: planet.id,
+                description: `A moon of ${planet.name}.`
+            });
+        }
+    }
+
+    // --- Belts ---
+    spec.belts.forEach((belt, beltIndex) => {
+        // Moved clear of the stars' orbits, keeping its width
+        const shift = Math.max(0, innermostStable - belt.innerRadius);
+        for (let i = 0; i < belt.count; i++) {
+            const elements: OrbitalElements = {
+                semiMajorAxis: between(belt.innerRadius, belt.outerRadius) + shift,
+                eccentricity: random() * belt.eccentricitySpread,
+                inclination: (random() * 2 - 1) * belt.inclinationSpread,
+                ascendingNode: angle(),
+                periapsis: angle(),
+                meanAnomalyEpoch: angle()
+            };
+            // Mostly small, some larger for variety
+            const size = random();
+            const radius = size > 0.98 ? between(0.3, 0.6) : size > 0.9 ? between(0.15, 0.3) : between(0.04, 0.1);
+            bodies.push({
+                id: `belt-${beltIndex + 1}-${i + 1}`,
+                name: `${belt.name} ${i + 1}`,
+                type: BodyType.ASTEROID,
+                mass: between(0.01, 0.06),
+                radius,
+                color: belt.color,
+                position: still(),
+                velocity: still(),
+                orbitalElements: elements,
+                isLocked: true,
+                parentId: centerId,
+                description: `A small body of the ${belt.name}.`
+            });
+        }
+    });
+
+    return { name, bodies };
+};
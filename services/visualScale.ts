@@ -0,0 +1,125 @@
+import { BodyType, CelestialBody, UnitSystem, Vector3 } from '../types';
+import { SimulationClient } from './simulationClient';
+import { AU_KM } from './ephemerisData';
+
+// --- Visual Scale ---
+// Maps where bodies are to where they are drawn. Simulation units are drawn
+// as they are. Astronomical units span far too wide a range for that, so
+// distances from the origin are compressed with a power law (Neptune ends up
+// a few hundred scene units out, the Earth where the toy Earth orbits),
+// bodies are enlarged until they can be seen, and moons are pushed out of
+// their enlarged parents on a logarithmic scale. Only drawing is affected:
+// physics, collisions and every readout stay in true units.
+
+export interface VisualScale {
+    /** Copies the drawn position of a body into `out`. Returns false for ids not in the latest snapshot. */
+    readPosition: (id: string, out: Vector3) => boolean;
+    /** Drawn radius of a body. */
+    radius: (body: Pick<CelestialBody, 'radius' | 'type'>) => number;
+    /** Mass the gravity-well grid shows for a body. */
+    wellMass: (body: CelestialBody) => number;
+    /** Drawn position of a point not attached to any body, such as a predicted path. */
+    toScene: <T extends Vector3>(point: Vector3, out: T) => T;
+    /** Inverse of toScene, e.g. to place a body where the user clicked. */
+    fromScene: <T extends Vector3>(point: Vector3, out: T) => T;
+    /** Drawn offset from the parent's drawn position of a point at `relative` to the parent; for orbit lines. */
+    orbitOffset: <T extends Vector3>(parentId: string | undefined, relative: Vector3, out: T) => T;
+}
+
+const DISTANCE_SCALE = 24; // Scene units at 1 AU
+const DISTANCE_EXPONENT = 0.6;
+const EARTH_RADIUS = 6371 / AU_KM;
+const EARTH_SCENE_RADIUS = 0.8;
+const RADIUS_EXPONENT = 0.4;
+const SOLAR_WELL_MASS = 1000; // The toy Sun's mass, so the real one dents the grid as deeply
+
+const copy = <T extends Vector3>(point: Vector3, out: T) => {
+    out.x = point.x;
+    out.y = point.y;
+    out.z = point.z;
+    return out;
+};
+
+/** Sets `out` to `v` scaled to the given length. */
+const withLength = <T extends Vector3>(v: Vector3, length: number, out: T) => {
+    const current = Math.hypot(v.x, v.y, v.z);
+    const s = current > 0 ? length / current : 0;
+    out.x = v.x * s;
+    out.y = v.y * s;
+    out.z = v.z * s;
+    return out;
+};
+
+const createIdentityScale = (simulation: SimulationClient): VisualScale => ({
+    readPosition: simulation.readPosition,
+    radius: body => body.radius,
+    wellMass: body => body.mass,
+    toScene: copy,
+    fromScene: copy,
+    orbitOffset: (_, relative, out) => copy(relative, out)
+});
+
+const createAstronomicalScale = (simulation: SimulationClient, bodies: CelestialBody[]): VisualScale => {
+    const byId = new Map(bodies.map(b => [b.id, b]));
+    const physical = { x: 0, y: 0, z: 0 };
+    const parentPhysical = { x: 0, y: 0, z: 0 };
+
+    const radius = (body: Pick<CelestialBody, 'radius' | 'type'>) =>
+        body.type === BodyType.BARYCENTER ? 0 : EARTH_SCENE_RADIUS * Math.pow(body.radius / EARTH_RADIUS, RADIUS_EXPONENT);
+
+    const toScene = <T extends Vector3>(point: Vector3, out: T) =>
+        withLength(point, DISTANCE_SCALE * Math.pow(Math.hypot(point.x, point.y, point.z), DISTANCE_EXPONENT), out);
+
+    const fromScene = <T extends Vector3>(point: Vector3, out: T) =>
+        withLength(point, Math.pow(Math.hypot(point.x, point.y, point.z) / DISTANCE_SCALE, 1 / DISTANCE_EXPONENT), out);
+
+    // Bodies around stars and barycenters are drawn where the power law puts them; those around anything else are spread out
+    const isHost = (parent: CelestialBody | undefined): parent is CelestialBody =>
+        !!parent && parent.type !== BodyType.STAR && parent.type !== BodyType.BARYCENTER && parent.radius > 0;
+    const hostOf = (body: CelestialBody | undefined) => {
+        const parent = body?.parentId ? byId.get(body.parentId) : undefined;
+        return isHost(parent) ? parent : undefined;
+    };
+
+    /** Distance from the host's centre becomes its drawn radius times 1 + ln(1 + distance in host radii). */
+    const satelliteOffset = <T extends Vector3>(host: CelestialBody, relative: Vector3, out: T) => {
+        const hostRadius = radius(host);
+        const distance = Math.hypot(relative.x, relative.y, relative.z);
+        return withLength(relative, hostRadius * (1 + Math.log(1 + distance / host.radius)), out);
+    };
+
+    const readPosition = (id: string, out: Vector3): boolean => {
+        const host = hostOf(byId.get(id));
+        if (!host) {
+            if (!simulation.readPosition(id, physical)) return false;
+            toScene(physical, out);
+            return true;
+        }
+        if (!simulation.readPosition(id, physical) || !simulation.readPosition(host.id, parentPhysical)) return false;
+        const relative = { x: physical.x - parentPhysical.x, y: physical.y - parentPhysical.y, z: physical.z - parentPhysical.z };
+        const offset = satelliteOffset(host, relative, { x: 0, y: 0, z: 0 });
+        if (!readPosition(host.id, out)) return false;
+        out.x += offset.x;
+        out.y += offset.y;
+        out.z += offset.z;
+        return true;
+    };
+
+    const orbitOffset = <T extends Vector3>(parentId: string | undefined, relative: Vector3, out: T) => {
+        const parent = parentId ? byId.get(parentId) : undefined;
+        if (isHost(parent)) return satelliteOffset(parent, relative, out);
+        if (!parentId || !simulation.readPosition(parentId, parentPhysical)) copy({ x: 0, y: 0, z: 0 }, parentPhysical);
+        const origin = toScene(parentPhysical, { x: 0, y: 0, z: 0 });
+        toScene({ x: parentPhysical.x + relative.x, y: parentPhysical.y + relative.y, z: parentPhysical.z + relative.z }, out);
+        out.x -= origin.x;
+        out.y -= origin.y;
+        out.z -= origin.z;
+        return out;
+    };
+
+    return { readPosition, radius, wellMass: body => body.mass * SOLAR_WELL_MASS, toScene, fromScene, orbitOffset };
+};
+
+/** The scale the scene draws `bodies` at in the given unit system. */
+export const createVisualScale = (simulation: SimulationClient, bodies: CelestialBody[], units: UnitSystem): VisualScale =>
+    units === 'astronomical' ? createAstronomicalScale(simulation, bodies) : createIdentityScale(simulation);
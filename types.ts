@@ -10,16 +10,29 @@ export enum BodyType {
   MOON = 'MOON',
   DWARF_PLANET = 'DWARF_PLANET',
   ASTEROID = 'ASTEROID',
-  CUSTOM = 'CUSTOM'
+  CUSTOM = 'CUSTOM',
+  // Massless centre of a multiple-star system; its mass is what bodies on rails around it orbit
+  BARYCENTER = 'BARYCENTER'
 }
 
 export interface OrbitalElements {
-  semiMajorAxis: number; // a: Size of the orbit (simulation units)
-  eccentricity: number; // e: Shape of the orbit (0 = circle, <1 = ellipse)
+  semiMajorAxis: number; // a: Size of the orbit (simulation units); negative for hyperbolas, the periapsis distance for parabolas
+  eccentricity: number; // e: Shape of the orbit (0 = circle, <1 = ellipse, 1 = parabola, >1 = hyperbola)
   inclination: number; // i: Tilt relative to the reference plane (radians)
   ascendingNode: number; // Ω: Orientation of the intersection line (radians)
   periapsis: number; // ω: Orientation of the ellipse in the orbital plane (radians)
-  meanAnomalyEpoch: number; // M0: Position at time t=0 (radians)
+  meanAnomalyEpoch: number; // M0: Position at time t=0 (radians); negative before periapsis on open orbits
+  rates?: OrbitalElementRates; // Secular drift, e.g. from an ephemeris; the elements above hold at t=0
+}
+
+/** Change of each orbital element per simulation time unit. */
+export interface OrbitalElementRates {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number;
+  ascendingNode: number;
+  periapsis: number;
+  meanMotion: number; // dM/dt (radians); replaces the Keplerian sqrt(mu / a^3), which ignores perturbations
 }
 
 export interface CelestialBody {
@@ -27,7 +40,7 @@ export interface CelestialBody {
   name: string;
   type: BodyType;
   mass: number; // Relative mass
-  radius: number; // Visual radius
+  radius: number; // Collision radius; drawn as-is in simulation units, through the visual scale otherwise
   color: string;
   texture?: string; // Base64 or URL
   position: Vector3;
@@ -38,6 +51,51 @@ export interface CelestialBody {
   parentId?: string; // ID of the body this one orbits (if isLocked)
 }
 
+export interface CameraPose {
+  position: Vector3;
+  target: Vector3; // Point the orbit controls look at
+}
+
+export type GravitySolver = 'direct' | 'barnes-hut';
+
+export type IntegratorId = 'verlet' | 'rk4' | 'rkf45';
+
+// 'simulation' is the scaled-down toy system; 'astronomical' measures in AU, days and solar masses
+export type UnitSystem = 'simulation' | 'astronomical';
+
+export type CollisionMode = 'none' | 'merge' | 'bounce' | 'fragment';
+
+export interface PhysicsSettings {
+  solver: GravitySolver;
+  theta: number; // Barnes–Hut opening angle: larger is faster but less accurate
+  integrator: IntegratorId;
+  tolerance: number; // Relative error per step allowed by adaptive integrators
+  collisionMode: CollisionMode;
+  restitution: number; // Bounce/fragment: 1 = perfectly elastic, 0 = bodies stick along the normal
+  unlockOnImpact: boolean; // If true, a locked body that is hit leaves its rails and joins the N-body integration
+  units: UnitSystem;
+  G: number; // Gravitational constant in the current units; also sets the speed of bodies on rails
+  timeStep: number; // Largest integrator sub-step; bigger frame steps are split into several
+  softening: number; // Plummer softening length: gravity falls off as d / (d² + ε²)^(3/2), staying finite at d = 0
+  railsGravity: boolean; // If true, bodies on rails pull on free ones
+  mutualGravity: boolean; // If true, free bodies pull on each other; otherwise each only feels the bodies on rails
+  localFrames: boolean; // If true, free bodies with a free parent are integrated relative to it, which keeps tight moons accurate
+  soiReparenting: boolean; // If true, each free body's parent follows the sphere of influence it is in
+  detectEvents: boolean; // If true, the engine records close approaches, apsis passages, conjunctions and escapes
+  approachDistance: number; // Gap between two bodies' surfaces below which a pass counts as a close approach
+}
+
+export type SimulationEventType = 'collision' | 'rails' | 'soi' | 'approach' | 'apsis' | 'conjunction' | 'alignment' | 'escape';
+
+export interface SimulationEvent {
+  id: string;
+  type: SimulationEventType;
+  time: number; // Simulation time at which it was detected
+  bodyIds: string[];
+  message: string;
+  position?: Vector3;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model' | 'system';